@@ -0,0 +1,124 @@
+#!/usr/bin/env -S npx tsx
+// benchmark - validateMPIN throughput with and without the precomputed lookup tables, per demographic
+// profile. also checks both modes return the same results for every PIN it times.
+//
+//   npm run benchmark
+//   npm run benchmark -- --count 50000 --format json
+//
+// exits 1 when the modes disagree, 2 on usage errors
+import { parseArgs } from "node:util"
+import { performance } from "node:perf_hooks"
+import { MPINValidator, type Demographics } from "../src/lib/mpin-validator"
+import { GOLDEN_PROFILES } from "../src/lib/golden-snapshot"
+
+const USAGE = `Usage: benchmark [options]
+
+Options:
+  --count <n>         PINs validated per measurement (default 200000)
+  --format <format>   text (default) or json
+  -h, --help          show this help`
+
+const LENGTHS = [4, 6]
+
+interface Measurement {
+  profile: string
+  length: number
+  standard: number // validations per second
+  precomputed: number
+  mismatches: number
+}
+
+function usageError(message: string): never {
+  process.stderr.write(`benchmark: ${message}\n\n${USAGE}\n`)
+  process.exit(2)
+}
+
+// spread over the whole space in a fixed order, a stride coprime to 10 visits every PIN once
+function samplePins(length: number, count: number): string[] {
+  const total = 10 ** length
+  return Array.from({ length: count }, (_, i) => String((i * 7919) % total).padStart(length, "0"))
+}
+
+const WARM_UP = 10_000
+
+// results are dropped as they come, keeping them would mostly time the garbage collector
+function throughput(validator: MPINValidator, pins: string[], demographics: Demographics): number {
+  for (const pin of pins.slice(0, WARM_UP)) validator.validateMPIN(pin, demographics)
+
+  const started = performance.now()
+  for (const pin of pins) validator.validateMPIN(pin, demographics)
+  return Math.round(pins.length / ((performance.now() - started) / 1000))
+}
+
+function main() {
+  let parsed
+  try {
+    parsed = parseArgs({
+      options: {
+        count: { type: "string", default: "200000" },
+        format: { type: "string", default: "text" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    usageError((error as Error).message)
+  }
+
+  const { values } = parsed
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return
+  }
+  if (values.format !== "text" && values.format !== "json") usageError(`unknown format "${values.format}"`)
+  const count = Number(values.count)
+  if (!Number.isInteger(count) || count < 1) usageError("--count must be a positive integer")
+
+  const standard = new MPINValidator()
+  const precomputed = new MPINValidator()
+  const started = performance.now()
+  precomputed.precompute(LENGTHS)
+  const buildMs = Math.round(performance.now() - started)
+
+  const measurements: Measurement[] = []
+  for (const { name, demographics } of GOLDEN_PROFILES) {
+    for (const length of LENGTHS) {
+      const pins = samplePins(length, count)
+      const mismatches = pins.filter(
+        (pin) =>
+          JSON.stringify(standard.validateMPIN(pin, demographics)) !==
+          JSON.stringify(precomputed.validateMPIN(pin, demographics)),
+      ).length
+      measurements.push({
+        profile: name,
+        length,
+        standard: throughput(standard, pins, demographics),
+        precomputed: throughput(precomputed, pins, demographics),
+        mismatches,
+      })
+    }
+  }
+
+  if (values.format === "json") {
+    process.stdout.write(JSON.stringify({ buildMs, count, measurements }, null, 2) + "\n")
+  } else {
+    const rate = (perSecond: number) => `${perSecond.toLocaleString("en")}/s`.padStart(12)
+    process.stdout.write(
+      [
+        `lookup tables for ${LENGTHS.join(" and ")} digits built in ${buildMs.toLocaleString("en")} ms`,
+        `${count.toLocaleString("en")} PINs per measurement`,
+        "",
+        `  ${"profile".padEnd(12)} ${"length".padEnd(6)} ${"standard".padStart(12)} ${"precomputed".padStart(12)}  speed-up`,
+        ...measurements.map(
+          (m) =>
+            `  ${m.profile.padEnd(12)} ${String(m.length).padEnd(6)} ${rate(m.standard)} ${rate(m.precomputed)}  ` +
+            `${(m.precomputed / m.standard).toFixed(1)}x` +
+            (m.mismatches > 0 ? `  ${m.mismatches} MISMATCHES` : ""),
+        ),
+      ].join("\n") + "\n",
+    )
+  }
+
+  process.exitCode = measurements.some((m) => m.mismatches > 0) ? 1 : 0
+}
+
+main()
@@ -0,0 +1,37 @@
+// contract checks - assertions on APIs that ValidationResult test cases cannot express (typed input
+// errors, request parsing, rule registry ...). run-tests reports them next to the test cases
+import { AssertionError } from "node:assert"
+import { performance } from "node:perf_hooks"
+import type { ReportedRun } from "../../src/lib/test-reports"
+
+export interface Check {
+  name: string
+  run: () => void | Promise<void>
+}
+
+const show = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value))
+
+export async function runChecks(checks: Check[]): Promise<ReportedRun[]> {
+  const runs: ReportedRun[] = []
+  for (const check of checks) {
+    const started = performance.now()
+    let diffs: ReportedRun["diffs"] = []
+    try {
+      await check.run()
+    } catch (error) {
+      diffs =
+        error instanceof AssertionError
+          ? [
+              {
+                field: "assertion",
+                expected: show(error.expected),
+                // a hand-written message says more than "false"
+                actual: error.generatedMessage ? show(error.actual) : `${show(error.actual)} (${error.message})`,
+              },
+            ]
+          : [{ field: "error", expected: "no error", actual: (error as Error).message }]
+    }
+    runs.push({ name: check.name, diffs, durationMs: performance.now() - started })
+  }
+  return runs
+}
@@ -0,0 +1,10 @@
+import type { Check } from "./harness"
+import { inputErrorChecks } from "./input-errors"
+import { openApiChecks } from "./openapi"
+import { pinChangeChecks } from "./pin-change"
+import { ruleRegistryChecks } from "./rule-registry"
+
+export { runChecks, type Check } from "./harness"
+
+// run by `npm test` after the built-in test cases
+export const checks: Check[] = [...inputErrorChecks, ...ruleRegistryChecks, ...pinChangeChecks, ...openApiChecks]
@@ -0,0 +1,179 @@
+// typed input errors (validateMPINStrict), request schema errors and the batch line contract
+import assert from "node:assert/strict"
+import { POST as batchRoute } from "../../src/app/api/validate/batch/route"
+import { POST as validateRoute } from "../../src/app/api/validate/route"
+import { MAX_LINE_LENGTH, readNdjson, validateRecord, type RawRecord } from "../../src/lib/batch-validation"
+import { MPINValidator, type Demographics, type Finding } from "../../src/lib/mpin-validator"
+import { parseValidationRequest } from "../../src/lib/validation-request"
+import type { Check } from "./harness"
+
+const validator = new MPINValidator()
+const TODAY = new Date(2024, 5, 1)
+
+const errorCodes = (mpin: string, demographics: Demographics = {}) => {
+  const outcome = validator.validateMPINStrict(mpin, demographics, TODAY)
+  return outcome.ok ? [] : outcome.errors.map((error) => `${error.field}:${error.code}`)
+}
+
+const requestError = (body: unknown) => {
+  const parsed = parseValidationRequest(body)
+  return parsed.ok ? null : parsed.error.code
+}
+
+// a stream that hands the text over in the given pieces, lines can be split anywhere
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk))
+      controller.close()
+    },
+  })
+
+async function collect(records: AsyncIterable<RawRecord>): Promise<RawRecord[]> {
+  const all: RawRecord[] = []
+  for await (const record of records) all.push(record)
+  return all
+}
+
+const post = (body: string) =>
+  validateRoute(new Request("http://localhost/api/validate", { method: "POST", body, headers: { "Content-Type": "application/json" } }))
+
+export const inputErrorChecks: Check[] = [
+  {
+    name: "strict: non-digit characters",
+    run: () => assert.deepEqual(errorCodes("12a4"), ["mpin:NON_DIGIT_CHARACTERS"]),
+  },
+  {
+    name: "strict: unsupported length",
+    run: () => assert.deepEqual(errorCodes("123"), ["mpin:UNSUPPORTED_LENGTH"]),
+  },
+  {
+    name: "strict: impossible date",
+    run: () => assert.deepEqual(errorCodes("7392", { dob: "2023-02-30" }), ["dob:IMPOSSIBLE_DATE"]),
+  },
+  {
+    name: "strict: future date",
+    run: () => assert.deepEqual(errorCodes("7392", { anniversary: "2024-06-02" }), ["anniversary:FUTURE_DATE"]),
+  },
+  {
+    name: "strict: unparseable date",
+    run: () => assert.deepEqual(errorCodes("7392", { spouseDob: "15 Feb 1990" }), ["spouseDob:UNPARSEABLE_DATE"]),
+  },
+  {
+    name: "strict: every problem is reported, not just the first",
+    run: () =>
+      assert.deepEqual(errorCodes("73a", { dob: "1990-13-01" }), [
+        "mpin:NON_DIGIT_CHARACTERS",
+        "mpin:UNSUPPORTED_LENGTH",
+        "dob:IMPOSSIBLE_DATE",
+      ]),
+  },
+  {
+    name: "strict: valid input is scored",
+    run: () => assert.equal(errorCodes("7392", { dob: "1990-02-15" }).length, 0),
+  },
+  {
+    name: "request: schema error codes",
+    run: () => {
+      assert.equal(requestError([]), "BODY_NOT_OBJECT")
+      assert.equal(requestError({ mpin: "1234", pin: "1234" }), "UNKNOWN_FIELD")
+      assert.equal(requestError({}), "MPIN_REQUIRED")
+      assert.equal(requestError({ mpin: 1234 }), "MPIN_NOT_STRING")
+      assert.equal(requestError({ mpin: "1234", demographics: "1990-02-15" }), "DEMOGRAPHICS_NOT_OBJECT")
+      assert.equal(requestError({ mpin: "1234", demographics: { dob: 19900215 } }), "DEMOGRAPHIC_NOT_STRING")
+      assert.equal(requestError({ mpin: "1234", demographics: { age: "34" } }), "UNKNOWN_FIELD")
+      assert.equal(requestError({ mpin: "1234", demographics: { dob: null } }), null)
+    },
+  },
+  {
+    name: "route: 400 with a code and no PIN in the body",
+    run: async () => {
+      for (const [body, code] of [
+        ["{", "INVALID_JSON"],
+        ['{"mpin": 4821}', "MPIN_NOT_STRING"],
+        ['{"mpin": "48x1"}', "NON_DIGIT_CHARACTERS"],
+      ]) {
+        const response = await post(body)
+        assert.equal(response.status, 400)
+        const text = await response.text()
+        assert.equal(JSON.parse(text).error.code, code)
+        assert.ok(!text.includes("48"), "error response echoes the PIN")
+      }
+    },
+  },
+  {
+    name: "route: result leaves out the common-list rank",
+    run: async () => {
+      const result = await (await post('{"mpin": "1234"}')).json()
+      assert.equal(result.commonPinRank, undefined)
+      assert.equal(result.commonPinBucket, 10)
+      // rank 1 alone takes the full 40 points, the bucket scores as its last PIN
+      const { points } = result.findings.find((finding: Finding) => finding.code === "COMMONLY_USED")
+      assert.equal(points, validator.getCommonPinPenalty(10, 4))
+      assert.notEqual(points, validator.getCommonPinPenalty(1, 4))
+      assert.deepEqual(result.detectedPatterns, ["Common PIN", "Sequential pattern", "Keyboard pattern"])
+    },
+  },
+  {
+    name: "route: findings carry no spans or details that point at the digits",
+    run: async () => {
+      const text = await (await post('{"mpin": "0215", "demographics": {"dob": "1990-02-15"}}')).text()
+      assert.deepEqual(
+        JSON.parse(text).findings.map(({ code, span, detail }: Finding) => ({ code, span, detail })),
+        [{ code: "DEMOGRAPHIC_DOB_SELF", span: null, detail: null }],
+      )
+      assert.ok(!text.includes("MMDD"), "response names the date format")
+    },
+  },
+  {
+    name: "ndjson: lines split across chunks, blank lines skipped, bad JSON kept per line",
+    run: async () => {
+      const records = await collect(readNdjson(streamOf('{"id":1,"mp', 'in":"7392"}\n\nnot json\n{"id":2,', '"mpin":"1234"}')))
+      assert.deepEqual(records, [
+        { line: 1, value: { id: 1, mpin: "7392" } },
+        { line: 3, error: { code: "INVALID_JSON", message: "Line is not valid JSON" } },
+        { line: 4, value: { id: 2, mpin: "1234" } },
+      ])
+    },
+  },
+  {
+    name: "ndjson: an over-long line fails on its own, however it is chunked",
+    run: async () => {
+      const long = "x".repeat(MAX_LINE_LENGTH + 1)
+      const tooLong = { code: "LINE_TOO_LONG", message: `Line is longer than ${MAX_LINE_LENGTH} characters` }
+      for (const chunks of [[long + "\n"], [long.slice(0, 10), long.slice(10), "\n"]]) {
+        const records = await collect(readNdjson(streamOf(...chunks, '{"id":1,"mpin":"7392"}')))
+        assert.deepEqual(records, [
+          { line: 1, error: tooLong },
+          { line: 2, value: { id: 1, mpin: "7392" } },
+        ])
+      }
+    },
+  },
+  {
+    name: "batch route: 400 responses are not cached",
+    run: async () => {
+      for (const body of ["[", "{}"]) {
+        const response = await batchRoute(
+          new Request("http://localhost/api/validate/batch", { method: "POST", body, headers: { "Content-Type": "application/json" } }),
+        )
+        assert.equal(response.status, 400)
+        assert.equal(response.headers.get("Cache-Control"), "no-store")
+      }
+    },
+  },
+  {
+    name: "batch: a bad record only fails its own line",
+    run: () => {
+      const line = (record: RawRecord) => {
+        const result = validateRecord(validator, record)
+        return "error" in result ? `${result.id}@${result.line}:${result.error.code}` : `${result.id}:${result.result.strength}`
+      }
+      assert.equal(line({ line: 1, value: { mpin: "7392" } }), "null@1:ID_REQUIRED")
+      assert.equal(line({ line: 2, value: { id: "a", mpin: 7392 } }), "a@2:MPIN_NOT_STRING")
+      assert.equal(line({ line: 3, value: { id: "b", mpin: "73x2" } }), "b@3:NON_DIGIT_CHARACTERS")
+      assert.equal(line({ line: 4, error: { code: "INVALID_JSON", message: "Line is not valid JSON" } }), "null@4:INVALID_JSON")
+      assert.equal(line({ line: 5, value: { id: 7, mpin: "7392" } }), "7:STRONG")
+    },
+  },
+]
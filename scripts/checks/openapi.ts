@@ -0,0 +1,11 @@
+// the committed OpenAPI document and client must match the TypeScript types they are generated from
+import assert from "node:assert/strict"
+import { findStaleOutputs } from "../generate-openapi"
+import type { Check } from "./harness"
+
+export const openApiChecks: Check[] = [
+  {
+    name: "openapi: openapi.json and api-client.ts match the types (npm run openapi to update)",
+    run: () => assert.deepEqual(findStaleOutputs(), []),
+  },
+]
@@ -0,0 +1,107 @@
+// validatePINChange - every relationship, plaintext and hashed history, strict input errors
+import assert from "node:assert/strict"
+import { MPINValidator, type Finding } from "../../src/lib/mpin-validator"
+import { hashPin, type HashedPin } from "../../src/lib/pin-similarity"
+import type { Check } from "./harness"
+
+const validator = new MPINValidator()
+
+// the full work factor takes a quarter second per hash, the stored iteration count keeps this fast
+const ITERATIONS = 1000
+
+async function change(newPin: string, previousPins: Array<string | HashedPin>): Promise<Finding | undefined> {
+  const outcome = await validator.validatePINChange(newPin, previousPins)
+  assert.ok(outcome.ok, "input was rejected")
+  return outcome.result.findings.find((finding) => finding.field === null && finding.code.endsWith("PREVIOUS_PIN"))
+}
+
+const relationship = async (newPin: string, oldPin: string) => {
+  const finding = await change(newPin, [oldPin])
+  return finding && `${finding.code}:${finding.detail}@${finding.span?.start}-${finding.span?.end}`
+}
+
+export const pinChangeChecks: Check[] = [
+  ...(
+    [
+      ["increment of one digit", "1847", "1846", "SIMILAR_TO_PREVIOUS_PIN:increment@3-4"],
+      ["decrement of one digit", "1845", "1846", "SIMILAR_TO_PREVIOUS_PIN:decrement@3-4"],
+      ["increment with a carry", "1900", "1899", "SIMILAR_TO_PREVIOUS_PIN:increment@1-4"],
+      ["rotation", "8461", "1846", "SIMILAR_TO_PREVIOUS_PIN:rotation@0-4"],
+      ["reversal", "6481", "1846", "SIMILAR_TO_PREVIOUS_PIN:reversal@0-4"],
+      ["swap of two digits", "1486", "1846", "SIMILAR_TO_PREVIOUS_PIN:swap@1-3"],
+      ["plaintext reuse", "1846", "1846", "REUSED_PREVIOUS_PIN:same@0-4"],
+    ] as const
+  ).map(([name, newPin, oldPin, expected]) => ({
+    name: `pin change: ${name} (${oldPin} -> ${newPin})`,
+    run: async () => assert.equal(await relationship(newPin, oldPin), expected),
+  })),
+  {
+    name: "pin change: an unrelated PIN passes",
+    run: async () => assert.equal(await relationship("7392", "1846"), undefined),
+  },
+  {
+    name: "pin change: a similar PIN is WEAK even when it would be STRONG",
+    run: async () => {
+      const outcome = await validator.validatePINChange("1847", ["1846"])
+      assert.ok(outcome.ok)
+      assert.equal(outcome.result.strength, "WEAK")
+      assert.deepEqual(outcome.result.weaknessReasons, ["SIMILAR_TO_PREVIOUS_PIN"])
+    },
+  },
+  {
+    name: "pin change: hashed reuse is caught, a hash never reports similarity",
+    run: async () => {
+      const history = await hashPin("1846", { iterations: ITERATIONS })
+      assert.equal(history.iterations, ITERATIONS)
+      assert.equal((await change("1846", [history]))?.code, "REUSED_PREVIOUS_PIN")
+      assert.equal(await change("1847", [history]), undefined)
+    },
+  },
+  {
+    name: "pin change: the same salt gives the same hash",
+    run: async () => {
+      const first = await hashPin("1846", { iterations: ITERATIONS })
+      assert.deepEqual(await hashPin("1846", { salt: first.salt, iterations: ITERATIONS }), first)
+      assert.notEqual((await hashPin("1846", { iterations: ITERATIONS })).salt, first.salt)
+    },
+  },
+  {
+    name: "pin change: exact reuse wins over a similar PIN earlier in the history",
+    run: async () => {
+      const hashed = await hashPin("1846", { iterations: ITERATIONS })
+      assert.equal((await change("1846", ["1847", hashed]))?.code, "REUSED_PREVIOUS_PIN")
+      assert.equal((await change("1846", ["1847", "1846"]))?.detail, "same")
+    },
+  },
+  {
+    name: "pin change: previous PINs leave the guess estimate alone",
+    run: async () => {
+      const { guessEstimate } = validator.validateMPIN("7392")
+      for (const [newPin, oldPin] of [["7392", "7392"], ["7392", "7391"]]) {
+        const outcome = await validator.validatePINChange(newPin, [oldPin])
+        assert.ok(outcome.ok)
+        assert.deepEqual(outcome.result.guessEstimate, guessEstimate)
+      }
+    },
+  },
+  {
+    name: "pin change: input errors come back typed, not scored",
+    run: async () => {
+      const outcome = await validator.validatePINChange("73a2", ["1846"], { dob: "2023-02-30" })
+      assert.ok(!outcome.ok)
+      assert.deepEqual(
+        outcome.errors.map((error) => error.code),
+        ["NON_DIGIT_CHARACTERS", "IMPOSSIBLE_DATE"],
+      )
+    },
+  },
+  {
+    name: "pin change: the check can be switched off by policy",
+    run: async () => {
+      const lax = new MPINValidator({ enabledChecks: { previousPins: false } })
+      const outcome = await lax.validatePINChange("1847", ["1846"])
+      assert.ok(outcome.ok)
+      assert.equal(outcome.result.strength, "STRONG")
+    },
+  },
+]
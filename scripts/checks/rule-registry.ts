@@ -0,0 +1,105 @@
+// custom rules and the registry operations on MPINValidator
+import assert from "node:assert/strict"
+import { MPINValidator } from "../../src/lib/mpin-validator"
+import type { ValidationRule } from "../../src/lib/rules"
+import type { Check } from "./harness"
+
+const branchCode: ValidationRule = {
+  id: "BRANCH_CODE",
+  description: "PIN starts with our branch code",
+  defaultWeight: 30,
+  blocking: true,
+  detect: ({ mpin }) => (mpin.startsWith("73") ? [{ span: { start: 0, end: 2 } }] : []),
+}
+
+const codes = (validator: MPINValidator, mpin: string) => validator.validateMPIN(mpin).findings.map((finding) => finding.code)
+const ruleIds = (validator: MPINValidator) => validator.listRules().map((rule) => rule.id)
+
+export const ruleRegistryChecks: Check[] = [
+  {
+    name: "rules: a registered rule becomes a finding and can block",
+    run: () => {
+      const validator = new MPINValidator()
+      assert.equal(validator.validateMPIN("7392").strength, "STRONG")
+      validator.registerRule(branchCode)
+
+      const result = validator.validateMPIN("7392")
+      assert.deepEqual(result.weaknessReasons, ["BRANCH_CODE"])
+      assert.deepEqual(result.findings[0].span, { start: 0, end: 2 })
+      assert.equal(result.securityScore, 70)
+    },
+  },
+  {
+    name: "rules: registered last, or before the named rule",
+    run: () => {
+      const validator = new MPINValidator()
+      validator.registerRule(branchCode)
+      assert.equal(ruleIds(validator).at(-1), "BRANCH_CODE")
+
+      validator.unregisterRule("BRANCH_CODE")
+      validator.registerRule(branchCode, { before: "COMMONLY_USED" })
+      assert.deepEqual(ruleIds(validator).slice(0, 3), ["UNSUPPORTED_LENGTH", "BRANCH_CODE", "COMMONLY_USED"])
+    },
+  },
+  {
+    name: "rules: duplicate and unknown ids throw",
+    run: () => {
+      const validator = new MPINValidator()
+      assert.throws(() => validator.registerRule({ ...branchCode, id: "PALINDROME" }), /already registered/)
+      assert.throws(() => validator.setRuleEnabled("NO_SUCH_RULE", false), /No rule/)
+      assert.throws(() => validator.reorderRules(["NO_SUCH_RULE"]), /No rule/)
+    },
+  },
+  {
+    name: "rules: disabled rules stop matching until enabled again",
+    run: () => {
+      const validator = new MPINValidator()
+      validator.setRuleEnabled("PALINDROME", false)
+      assert.ok(!codes(validator, "3883").includes("PALINDROME"))
+      assert.equal(validator.listRules().find((rule) => rule.id === "PALINDROME")?.enabled, false)
+
+      validator.setRuleEnabled("PALINDROME", true)
+      assert.ok(codes(validator, "3883").includes("PALINDROME"))
+    },
+  },
+  {
+    name: "rules: reorder moves the listed ids to the front",
+    run: () => {
+      const validator = new MPINValidator()
+      validator.reorderRules(["ARITHMETIC_PROGRESSION", "COMMONLY_USED"])
+      assert.deepEqual(codes(validator, "2468").slice(0, 2), ["ARITHMETIC_PROGRESSION", "COMMONLY_USED"])
+      assert.equal(ruleIds(validator).length, new Set(ruleIds(validator)).size)
+    },
+  },
+  {
+    name: "rules: reorder rejects a repeated id",
+    run: () => {
+      const validator = new MPINValidator()
+      assert.throws(() => validator.reorderRules(["COMMONLY_USED", "COMMONLY_USED"]), /more than once/)
+      assert.deepEqual(
+        codes(validator, "1234").filter((code) => code === "COMMONLY_USED"),
+        ["COMMONLY_USED"],
+      )
+    },
+  },
+  {
+    name: "rules: unregister removes built-in and custom rules",
+    run: () => {
+      const validator = new MPINValidator()
+      validator.registerRule(branchCode)
+      validator.unregisterRule("BRANCH_CODE")
+      validator.unregisterRule("COMMONLY_USED")
+      assert.ok(!ruleIds(validator).includes("BRANCH_CODE"))
+      assert.deepEqual(validator.validateMPIN("1111").weaknessReasons, [])
+    },
+  },
+  {
+    name: "rules: rules registered after precompute still run",
+    run: () => {
+      const validator = new MPINValidator()
+      validator.precompute([4])
+      validator.registerRule(branchCode)
+      assert.deepEqual(validator.validateMPIN("7392").weaknessReasons, ["BRANCH_CODE"])
+    },
+  },
+]
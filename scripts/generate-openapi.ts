@@ -0,0 +1,368 @@
+// generate-openapi - builds the OpenAPI document for the HTTP API from the TypeScript types
+// (ValidationResponse, Demographics, ...) and a typed fetch client from that document.
+//
+//   npm run openapi          writes src/lib/openapi.json and src/lib/api-client.ts
+//   npm run openapi:check    exits 1 when either file is out of date with the types (npm test checks it too)
+import { readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import ts from "typescript"
+
+const ROOT = path.resolve(__dirname, "..")
+const SPEC_FILE = path.join(ROOT, "src/lib/openapi.json")
+const CLIENT_FILE = path.join(ROOT, "src/lib/api-client.ts")
+
+// schemas in components, by the file that declares them
+const COMPONENTS: Record<string, string> = {
+  ValidationRequestBody: "src/lib/validation-request.ts",
+  ErrorResponse: "src/lib/validation-request.ts",
+  RequestError: "src/lib/validation-request.ts",
+  RequestErrorCode: "src/lib/validation-request.ts",
+  Demographics: "src/lib/mpin-validator.ts",
+  ValidationResponse: "src/lib/validation-request.ts",
+  Finding: "src/lib/mpin-validator.ts",
+  FindingSeverity: "src/lib/validation-policy.ts",
+  GuessEstimate: "src/lib/guess-estimator.ts",
+  GuessBasis: "src/lib/guess-estimator.ts",
+  AttackEstimate: "src/lib/guess-estimator.ts",
+  RecordId: "src/lib/batch-validation.ts",
+  BatchRecord: "src/lib/batch-validation.ts",
+  BatchLine: "src/lib/batch-validation.ts",
+  BatchSummary: "src/lib/batch-validation.ts",
+  BatchSummaryLine: "src/lib/batch-validation.ts",
+}
+
+type Schema = { [key: string]: unknown }
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+const json = (schema: Schema) => ({ "application/json": { schema } })
+const ndjson = (schema: Schema) => ({ "application/x-ndjson": { schema } })
+
+// operations are written by hand, every schema they use comes from the types
+const PATHS = {
+  "/api/validate": {
+    post: {
+      operationId: "validateMpin",
+      summary: "Validate one MPIN",
+      requestBody: { required: true, content: json(ref("ValidationRequestBody")) },
+      responses: {
+        "200": {
+          description: "Validation result without spans, details or the exact common-list rank",
+          content: json(ref("ValidationResponse")),
+        },
+        "400": { description: "Malformed request or input the validator cannot score", content: json(ref("ErrorResponse")) },
+      },
+    },
+  },
+  "/api/validate/batch": {
+    post: {
+      operationId: "validateBatch",
+      summary: "Validate many MPINs, streamed back as NDJSON",
+      requestBody: {
+        required: true,
+        content: {
+          ...json({ type: "array", items: ref("BatchRecord") }),
+          ...ndjson(ref("BatchRecord")),
+        },
+      },
+      responses: {
+        "200": {
+          description: "One line per record in input order, then a summary line",
+          content: ndjson({ anyOf: [ref("BatchLine"), ref("BatchSummaryLine")] }),
+        },
+        "400": { description: "Body is not a JSON array or NDJSON", content: json(ref("ErrorResponse")) },
+      },
+    },
+  },
+  "/api/openapi.json": {
+    get: {
+      operationId: "getOpenApiDocument",
+      summary: "This document",
+      responses: {
+        "200": { description: "OpenAPI document", content: json({ type: "object" }) },
+      },
+    },
+  },
+}
+
+function createChecker(): { checker: ts.TypeChecker; program: ts.Program } {
+  const configFile = ts.readConfigFile(path.join(ROOT, "tsconfig.json"), ts.sys.readFile)
+  const config = ts.parseJsonConfigFileContent(configFile.config, ts.sys, ROOT)
+  const files = [...new Set(Object.values(COMPONENTS))].map((file) => path.join(ROOT, file))
+  const program = ts.createProgram(files, config.options)
+  return { checker: program.getTypeChecker(), program }
+}
+
+function buildSchemas(): Record<string, Schema> {
+  const { checker, program } = createChecker()
+
+  const declaredType = (name: string): ts.Type => {
+    const source = program.getSourceFile(path.join(ROOT, COMPONENTS[name]))
+    const symbol = source && checker.getSymbolAtLocation(source)
+    const exported = symbol && checker.getExportsOfModule(symbol).find((candidate) => candidate.name === name)
+    if (!exported) throw new Error(`${name} is not exported from ${COMPONENTS[name]}`)
+    return checker.getDeclaredTypeOfSymbol(exported)
+  }
+
+  const componentName = (type: ts.Type): string | undefined => {
+    const name = type.aliasSymbol?.name ?? (type.flags & ts.TypeFlags.Object ? type.symbol?.name : undefined)
+    return name && name in COMPONENTS ? name : undefined
+  }
+
+  // trailing `// ...` comments on properties become descriptions
+  const describe = (symbol: ts.Symbol): string | undefined => {
+    const declaration = symbol.declarations?.[0]
+    if (!declaration) return undefined
+    const text = declaration.getSourceFile().text
+    const comment = ts.getTrailingCommentRanges(text, declaration.end)?.[0]
+    if (!comment || comment.kind !== ts.SyntaxKind.SingleLineCommentTrivia) return undefined
+    return text.slice(comment.pos + 2, comment.end).trim()
+  }
+
+  // string, or `string & {}` which keeps editor completions for known codes but accepts any string
+  const isOpenString = (type: ts.Type): boolean =>
+    Boolean(type.flags & ts.TypeFlags.String) ||
+    (type.isIntersection() && type.types.some((part) => part.flags & ts.TypeFlags.String))
+
+  const toSchema = (type: ts.Type, root = false): Schema => {
+    const name = componentName(type)
+    if (name && !root) return ref(name)
+
+    if (type.flags & ts.TypeFlags.Null) return { type: "null" }
+    if (type.flags & ts.TypeFlags.String) return { type: "string" }
+    if (type.flags & ts.TypeFlags.Number) return { type: "number" }
+    if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" }
+    if (type.isStringLiteral()) return { const: type.value }
+    if (type.isNumberLiteral()) return { const: type.value }
+
+    if (type.isIntersection() && isOpenString(type)) return { type: "string" }
+
+    if (type.isUnion()) return unionSchema(type)
+
+    if (checker.isArrayType(type)) {
+      const [item] = checker.getTypeArguments(type as ts.TypeReference)
+      return { type: "array", items: toSchema(item) }
+    }
+
+    return objectSchema(type)
+  }
+
+  const unionSchema = (type: ts.UnionType): Schema => {
+    let parts = type.types.filter((part) => !(part.flags & ts.TypeFlags.Undefined))
+    const nullable = parts.some((part) => part.flags & ts.TypeFlags.Null)
+    parts = parts.filter((part) => !(part.flags & ts.TypeFlags.Null))
+
+    // known codes plus any string is just a string
+    if (parts.some(isOpenString) && parts.every((part) => part.isStringLiteral() || isOpenString(part))) {
+      return nullable ? { type: ["string", "null"] } : { type: "string" }
+    }
+
+    if (parts.every((part) => part.flags & ts.TypeFlags.BooleanLiteral)) {
+      return nullable ? { type: ["boolean", "null"] } : { type: "boolean" }
+    }
+
+    if (parts.every((part) => part.isStringLiteral())) {
+      const values = parts.map((part) => (part as ts.StringLiteralType).value)
+      return nullable ? { type: ["string", "null"], enum: [...values, null] } : { type: "string", enum: values }
+    }
+
+    const options = parts.map((part) => toSchema(part))
+    if (nullable) options.push({ type: "null" })
+    return options.length === 1 ? options[0] : { anyOf: options }
+  }
+
+  const objectSchema = (type: ts.Type): Schema => {
+    const properties: Record<string, Schema> = {}
+    const required: string[] = []
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration ?? property.declarations?.[0]
+      const propertyType = declaration
+        ? checker.getTypeOfSymbolAtLocation(property, declaration)
+        : checker.getTypeOfSymbol(property)
+      const description = describe(property)
+      properties[property.name] = description ? { ...toSchema(propertyType), description } : toSchema(propertyType)
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name)
+    }
+
+    const [index] = checker.getIndexInfosOfType(type)
+    const schema: Schema = { type: "object" }
+    if (Object.keys(properties).length > 0) schema.properties = properties
+    if (required.length > 0) schema.required = required
+    schema.additionalProperties = index ? toSchema(index.type) : false
+    return schema
+  }
+
+  return Object.fromEntries(Object.keys(COMPONENTS).map((name) => [name, toSchema(declaredType(name), true)]))
+}
+
+function buildDocument() {
+  const { version } = JSON.parse(readFileSync(path.join(ROOT, "package.json"), "utf8"))
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "MPIN Validator API",
+      version,
+      description: "Scores MPINs against common PIN lists, digit patterns and the user's own dates and numbers.",
+    },
+    paths: PATHS,
+    components: { schemas: buildSchemas() },
+  }
+}
+
+interface Operation {
+  operationId: string
+  summary: string
+  requestBody?: { content: Record<string, { schema: Schema }> }
+  responses: Record<string, { content: Record<string, { schema: Schema }> }>
+}
+
+// TypeScript type for a schema in the document, components map to the types they came from
+function typeFor(schema: Schema): string {
+  if (typeof schema.$ref === "string") return schema.$ref.split("/").pop()!
+  if (schema.anyOf) return (schema.anyOf as Schema[]).map(typeFor).join(" | ")
+  if (schema.type === "array") return `${typeFor(schema.items as Schema)}[]`
+  return "unknown"
+}
+
+function buildClient(document: ReturnType<typeof buildDocument>): string {
+  const methods: string[] = []
+  const used = new Set<string>(["ErrorResponse"])
+
+  for (const [route, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations as Record<string, Operation>)) {
+      const body = operation.requestBody?.content["application/json"]?.schema
+      const [ok] = Object.values(operation.responses)
+      const streamed = ok.content["application/x-ndjson"]?.schema
+      const result = streamed ?? ok.content["application/json"].schema
+
+      const bodyType = body && typeFor(body)
+      const resultType = typeFor(result)
+      for (const type of [bodyType, resultType].join(" | ").match(/[A-Z]\w+/g) ?? []) used.add(type)
+
+      const params = bodyType ? `body: ${bodyType}` : ""
+      const init = bodyType
+        ? `{ method: "${method.toUpperCase()}", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }`
+        : `{ method: "${method.toUpperCase()}" }`
+
+      methods.push(
+        streamed
+          ? [
+              `    // ${operation.summary}`,
+              `    async *${operation.operationId}(${params}): AsyncGenerator<${resultType}> {`,
+              `      const response = await send("${route}", ${init})`,
+              `      yield* readLines<${resultType}>(response)`,
+              `    },`,
+            ].join("\n")
+          : [
+              `    // ${operation.summary}`,
+              `    async ${operation.operationId}(${params}): Promise<${resultType}> {`,
+              `      const response = await send("${route}", ${init})`,
+              `      return response.json()`,
+              `    },`,
+            ].join("\n"),
+      )
+    }
+  }
+
+  const imports = [...used]
+    .filter((type) => type in COMPONENTS)
+    .sort()
+    .reduce<Record<string, string[]>>((byFile, type) => {
+      const file = `./${path.basename(COMPONENTS[type], ".ts")}`
+      byFile[file] = [...(byFile[file] ?? []), type]
+      return byFile
+    }, {})
+
+  return `// generated by scripts/generate-openapi.ts from openapi.json - run \`npm run openapi\` instead of editing
+${Object.entries(imports)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([file, types]) => `import type { ${types.join(", ")} } from "${file}"`)
+  .join("\n")}
+
+export interface ApiClientOptions {
+  baseUrl?: string // defaults to the current origin
+  fetch?: typeof fetch
+}
+
+// non-2xx responses, \`error\` is the API's error body
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: ErrorResponse["error"] | null,
+  ) {
+    super(error?.message ?? \`Request failed with status \${status}\`)
+    this.name = "ApiError"
+  }
+}
+
+export function createApiClient({ baseUrl = "", fetch: fetchImpl = globalThis.fetch }: ApiClientOptions = {}) {
+  const send = async (route: string, init: RequestInit): Promise<Response> => {
+    const response = await fetchImpl(baseUrl + route, init)
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as ErrorResponse | null
+      throw new ApiError(response.status, body?.error ?? null)
+    }
+    return response
+  }
+
+  return {
+${methods.join("\n\n")}
+  }
+}
+
+async function* readLines<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+    const lines = buffered.split("\\n")
+    buffered = lines.pop()!
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T
+    }
+    if (done) break
+  }
+  if (buffered.trim()) yield JSON.parse(buffered) as T
+}
+`
+}
+
+function buildOutputs(): Array<[string, string]> {
+  const document = buildDocument()
+  return [
+    [SPEC_FILE, JSON.stringify(document, null, 2) + "\n"],
+    [CLIENT_FILE, buildClient(document)],
+  ]
+}
+
+// committed files that no longer match the types, also run by npm test
+export function findStaleOutputs(): string[] {
+  return buildOutputs()
+    .filter(([file, content]) => {
+      try {
+        return readFileSync(file, "utf8") !== content
+      } catch {
+        return true
+      }
+    })
+    .map(([file]) => path.relative(ROOT, file))
+}
+
+function main() {
+  if (process.argv.includes("--check")) {
+    const stale = findStaleOutputs()
+    for (const file of stale) {
+      process.stderr.write(`${file} does not match the types, run npm run openapi\n`)
+    }
+    process.exitCode = stale.length > 0 ? 1 : 0
+    return
+  }
+
+  for (const [file, content] of buildOutputs()) writeFileSync(file, content)
+}
+
+// imported by the test runner, run as a script otherwise
+if (require.main === module) main()
@@ -0,0 +1,119 @@
+#!/usr/bin/env -S npx tsx
+// golden-snapshot - classifies the 4- and 6-digit spaces for a fixed demographic set and diffs the
+// decisions against the committed golden file, so a rule change shows every PIN it flips.
+//
+//   npm run golden                        diff against golden/mpin-decisions.json
+//   npm run golden -- --format json > changes.json
+//   npm run golden:update                 rewrite the golden file after the change is approved
+//
+// exits 1 when any decision changed, 2 on usage errors
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { parseArgs } from "node:util"
+import { MPINValidator } from "../src/lib/mpin-validator"
+import {
+  createGoldenSnapshot,
+  diffGolden,
+  parseGoldenFile,
+  serializeGoldenFile,
+  type Decision,
+  type DecisionChange,
+  type GoldenFile,
+} from "../src/lib/golden-snapshot"
+
+const DEFAULT_FILE = path.resolve(__dirname, "../golden/mpin-decisions.json")
+
+const USAGE = `Usage: golden-snapshot [options]
+
+Options:
+  --file <file>       golden file (default golden/mpin-decisions.json)
+  --update            write the current decisions to the golden file instead of diffing
+  --format <format>   text (default) or json
+  -h, --help          show this help`
+
+function usageError(message: string): never {
+  process.stderr.write(`golden-snapshot: ${message}\n\n${USAGE}\n`)
+  process.exit(2)
+}
+
+function main() {
+  let parsed
+  try {
+    parsed = parseArgs({
+      options: {
+        file: { type: "string", default: DEFAULT_FILE },
+        update: { type: "boolean" },
+        format: { type: "string", default: "text" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    usageError((error as Error).message)
+  }
+
+  const { values } = parsed
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return
+  }
+  if (values.format !== "text" && values.format !== "json") usageError(`unknown format "${values.format}"`)
+
+  let golden: GoldenFile | undefined
+  if (!values.update) {
+    try {
+      golden = parseGoldenFile(readFileSync(values.file, "utf8"))
+    } catch (error) {
+      usageError(`cannot load ${values.file}: ${(error as Error).message}`)
+    }
+  }
+
+  const current = createGoldenSnapshot(new MPINValidator(), {
+    onProgress: process.stderr.isTTY
+      ? (space, done, total) => process.stderr.write(`\r\x1b[K${space}: ${Math.round((done / total) * 100)}%`)
+      : undefined,
+  })
+  if (process.stderr.isTTY) process.stderr.write("\r\x1b[K")
+
+  if (!golden) {
+    mkdirSync(path.dirname(values.file), { recursive: true })
+    writeFileSync(values.file, serializeGoldenFile(current))
+    process.stderr.write(`golden file written to ${path.relative(process.cwd(), values.file)}\n`)
+    return
+  }
+
+  let changes: DecisionChange[]
+  try {
+    changes = diffGolden(golden, current)
+  } catch (error) {
+    process.stderr.write(`golden-snapshot: ${(error as Error).message}, run npm run golden:update\n`)
+    process.exitCode = 1
+    return
+  }
+
+  process.stdout.write(values.format === "json" ? JSON.stringify(changes, null, 2) + "\n" : renderText(changes))
+  process.exitCode = changes.length > 0 ? 1 : 0
+}
+
+const describe = ({ strength, reasons }: Decision) => (reasons.length > 0 ? `${strength} (${reasons.join(", ")})` : strength)
+
+function renderText(changes: DecisionChange[]): string {
+  if (changes.length === 0) return "no decisions changed\n"
+
+  // summary by transition first, the full list can run to thousands of lines
+  const transitions = new Map<string, number>()
+  for (const change of changes) {
+    const transition = `${describe(change.before)} -> ${describe(change.after)}`
+    transitions.set(transition, (transitions.get(transition) ?? 0) + 1)
+  }
+
+  return [
+    `${changes.length.toLocaleString("en")} decisions changed`,
+    ...[...transitions].sort((a, b) => b[1] - a[1]).map(([transition, count]) => `  ${String(count).padStart(9)}  ${transition}`),
+    "",
+    ...changes.map(
+      (change) => `${change.profile.padEnd(12)} ${change.pin.padEnd(7)} ${describe(change.before)} -> ${describe(change.after)}`,
+    ),
+  ].join("\n") + "\n"
+}
+
+main()
@@ -0,0 +1,150 @@
+#!/usr/bin/env -S npx tsx
+// mpin-validate - runs MPINValidator from the command line.
+//
+//   mpin-validate 1234 7392 --dob 1990-02-15
+//   cat pins.txt | mpin-validate --format json
+//   mpin-validate --csv users.csv --format csv
+//
+// exits 1 when any PIN is WEAK or invalid, 2 on usage errors, so it can gate provisioning scripts
+import { readFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { MPINValidator, type Demographics, type ValidationResult } from "../src/lib/mpin-validator"
+import { parseCsvRecords, toCsvRow } from "../src/lib/csv"
+
+const USAGE = `Usage: mpin-validate [options] [PIN...]
+
+Reads PINs from the arguments, from --csv, or one per line from stdin.
+
+Options:
+  --csv <file>          CSV with an mpin column and optional dob, spouseDob, anniversary
+                        columns ("-" reads the CSV from stdin)
+  --format <format>     table (default), json or csv
+  --dob <date>          date of birth used for every PIN, a CSV row's own dob wins
+  --spouse-dob <date>   spouse's date of birth, same for the spouseDob column
+  --anniversary <date>  wedding anniversary, same for the anniversary column
+  -h, --help            show this help`
+
+const FORMATS = ["table", "json", "csv"] as const
+type Format = (typeof FORMATS)[number]
+
+interface Row {
+  mpin: string
+  result: ValidationResult | null
+  error: string | null
+}
+
+function usageError(message: string): never {
+  process.stderr.write(`mpin-validate: ${message}\n\n${USAGE}\n`)
+  process.exit(2)
+}
+
+function readInput(file: string): string {
+  try {
+    return readFileSync(file === "-" ? 0 : file, "utf8")
+  } catch {
+    usageError(`cannot read ${file === "-" ? "stdin" : file}`)
+  }
+}
+
+function main() {
+  let parsed
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        csv: { type: "string" },
+        format: { type: "string", default: "table" },
+        dob: { type: "string" },
+        "spouse-dob": { type: "string" },
+        anniversary: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    usageError((error as Error).message)
+  }
+
+  const { values, positionals } = parsed
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return
+  }
+
+  const format = values.format as Format
+  if (!FORMATS.includes(format)) usageError(`unknown format "${values.format}"`)
+  if (values.csv && positionals.length > 0) usageError("pass PINs as arguments or with --csv, not both")
+
+  const shared: Demographics = {
+    dob: values.dob,
+    spouseDob: values["spouse-dob"],
+    anniversary: values.anniversary,
+  }
+
+  let inputs: Array<{ mpin: string; demographics: Demographics }>
+  if (values.csv) {
+    const records = parseCsvRecords(readInput(values.csv))
+    if (records.length > 0 && !("mpin" in records[0])) usageError("CSV needs an mpin column")
+    inputs = records.map((record) => ({
+      mpin: record.mpin,
+      // an empty cell falls back to the flag
+      demographics: {
+        dob: record.dob || shared.dob,
+        spouseDob: record.spouseDob || shared.spouseDob,
+        anniversary: record.anniversary || shared.anniversary,
+      },
+    }))
+  } else {
+    const pins = positionals.length > 0 ? positionals : readInput("-").split(/\r?\n/)
+    inputs = pins.map((pin) => pin.trim()).filter(Boolean).map((mpin) => ({ mpin, demographics: shared }))
+  }
+
+  if (inputs.length === 0) usageError("no PINs given")
+
+  const validator = new MPINValidator()
+  const rows: Row[] = inputs.map(({ mpin, demographics }) => {
+    const outcome = validator.validateMPINStrict(mpin, demographics)
+    return outcome.ok
+      ? { mpin, result: outcome.result, error: null }
+      : { mpin, result: null, error: outcome.errors.map((error) => error.code).join(";") }
+  })
+
+  process.stdout.write(render(rows, format))
+  process.exitCode = rows.some((row) => !row.result || row.result.strength === "WEAK") ? 1 : 0
+}
+
+function render(rows: Row[], format: Format): string {
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2) + "\n"
+  }
+
+  if (format === "csv") {
+    const lines = [toCsvRow(["mpin", "strength", "securityScore", "weaknessReasons", "detectedPatterns", "error"])]
+    for (const { mpin, result, error } of rows) {
+      lines.push(
+        toCsvRow([
+          mpin,
+          result?.strength ?? "",
+          result?.securityScore ?? "",
+          result?.weaknessReasons.join(";") ?? "",
+          result?.detectedPatterns.join(";") ?? "",
+          error ?? "",
+        ]),
+      )
+    }
+    return lines.join("\n") + "\n"
+  }
+
+  const table = [
+    ["PIN", "STRENGTH", "SCORE", "REASONS"],
+    ...rows.map(({ mpin, result, error }) => [
+      mpin,
+      result?.strength ?? "ERROR",
+      result ? String(result.securityScore) : "-",
+      error ?? (result!.weaknessReasons.join(", ") || "-"),
+    ]),
+  ]
+  const widths = table[0].map((_, column) => Math.max(...table.map((cells) => cells[column].length)))
+  return table.map((cells) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()).join("\n") + "\n"
+}
+
+main()
@@ -0,0 +1,93 @@
+#!/usr/bin/env -S npx tsx
+// pin-space-report - classifies every PIN of the given lengths and checks the invariants.
+//
+//   npm run pin-space                     4-digit space
+//   npm run pin-space -- --length 4,6 --format json > report.json
+//
+// exits 1 when an invariant is broken, 2 on usage errors
+import { parseArgs } from "node:util"
+import { MPINValidator } from "../src/lib/mpin-validator"
+import { classifyPinSpace, MAX_EXHAUSTIVE_LENGTH, type PinSpaceReport } from "../src/lib/pin-space"
+
+const USAGE = `Usage: pin-space-report [options]
+
+Options:
+  --length <n[,n...]>  PIN lengths to classify, 1 to ${MAX_EXHAUSTIVE_LENGTH} (default 4)
+  --format <format>    text (default) or json
+  -h, --help           show this help`
+
+function usageError(message: string): never {
+  process.stderr.write(`pin-space-report: ${message}\n\n${USAGE}\n`)
+  process.exit(2)
+}
+
+function main() {
+  let parsed
+  try {
+    parsed = parseArgs({
+      options: {
+        length: { type: "string", default: "4" },
+        format: { type: "string", default: "text" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    usageError((error as Error).message)
+  }
+
+  const { values } = parsed
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return
+  }
+
+  if (values.format !== "text" && values.format !== "json") usageError(`unknown format "${values.format}"`)
+  const lengths = values.length.split(",").map(Number)
+  if (lengths.some((length) => !Number.isInteger(length) || length < 1 || length > MAX_EXHAUSTIVE_LENGTH)) {
+    usageError(`--length must be between 1 and ${MAX_EXHAUSTIVE_LENGTH}`)
+  }
+
+  const validator = new MPINValidator()
+  const reports = lengths.map((length) =>
+    classifyPinSpace(validator, length, {
+      onProgress: process.stderr.isTTY
+        ? (done, total) => process.stderr.write(`\r${length} digits: ${Math.round((done / total) * 100)}%`)
+        : undefined,
+    }),
+  )
+  if (process.stderr.isTTY) process.stderr.write("\r\x1b[K")
+
+  process.stdout.write(values.format === "json" ? JSON.stringify(reports, null, 2) + "\n" : reports.map(renderText).join("\n"))
+  process.exitCode = reports.some((report) => report.invariants.some((invariant) => invariant.violations > 0)) ? 1 : 0
+}
+
+const share = (count: number, total: number) => `${((count / total) * 100).toFixed(2)}%`
+
+function renderText(report: PinSpaceReport): string {
+  const { total } = report
+  const ranked = (counts: Record<string, number>) =>
+    Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([key, count]) => `  ${key.padEnd(44)} ${String(count).padStart(9)}  ${share(count, total)}`)
+
+  return [
+    `${report.length}-digit PINs: ${total.toLocaleString("en")}`,
+    `  STRONG ${report.byStrength.STRONG.toLocaleString("en")} (${share(report.byStrength.STRONG, total)}), ` +
+      `WEAK ${report.byStrength.WEAK.toLocaleString("en")} (${share(report.byStrength.WEAK, total)})`,
+    "",
+    "Weakness reasons",
+    ...ranked(report.byReason),
+    "",
+    "Detected patterns",
+    ...ranked(report.byPattern),
+    "",
+    "Invariants",
+    ...report.invariants.map(
+      ({ description, violations, examples }) =>
+        `  ${violations === 0 ? "ok  " : "FAIL"} ${description}` +
+        (violations > 0 ? ` - ${violations} violations, e.g. ${examples.join(", ")}` : ""),
+    ),
+  ].join("\n") + "\n"
+}
+
+main()
@@ -0,0 +1,87 @@
+#!/usr/bin/env -S npx tsx
+// run-tests - runs the validator test cases without a browser, for CI. the built-in suite also runs
+// the contract checks in scripts/checks.
+//
+//   npm test
+//   npm test -- --format junit --output reports/mpin.xml
+//   npm test -- --cases qa-corpus.json --format tap
+//
+// exits 1 when any case fails, 2 on usage errors
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { parseArgs } from "node:util"
+import { MPINValidator } from "../src/lib/mpin-validator"
+import { parseTestSuite, runTestCases, type TestCase } from "../src/lib/test-cases"
+import { toJUnit, toTap, type ReportedRun } from "../src/lib/test-reports"
+import { checks, runChecks } from "./checks"
+
+const USAGE = `Usage: run-tests [options]
+
+Options:
+  --cases <file>      JSON test suite exported from the Test Suite tab (default: built-in cases
+                      and contract checks)
+  --format <format>   tap (default) or junit
+  --output <file>     write the report to a file instead of stdout
+  -h, --help          show this help`
+
+const FORMATS = ["tap", "junit"] as const
+type Format = (typeof FORMATS)[number]
+
+function usageError(message: string): never {
+  process.stderr.write(`run-tests: ${message}\n\n${USAGE}\n`)
+  process.exit(2)
+}
+
+async function main() {
+  let parsed
+  try {
+    parsed = parseArgs({
+      options: {
+        cases: { type: "string" },
+        format: { type: "string", default: "tap" },
+        output: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    usageError((error as Error).message)
+  }
+
+  const { values } = parsed
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return
+  }
+
+  const format = values.format as Format
+  if (!FORMATS.includes(format)) usageError(`unknown format "${values.format}"`)
+
+  const validator = new MPINValidator()
+  let cases: TestCase[]
+  if (values.cases) {
+    try {
+      cases = parseTestSuite(readFileSync(values.cases, "utf8"))
+    } catch (error) {
+      usageError(`cannot load ${values.cases}: ${(error as Error).message}`)
+    }
+  } else {
+    cases = validator.generateTestCases()
+  }
+
+  const runs: ReportedRun[] = runTestCases(validator, cases)
+  if (!values.cases) runs.push(...(await runChecks(checks)))
+  const report = format === "junit" ? toJUnit(runs) : toTap(runs)
+
+  if (values.output) {
+    mkdirSync(path.dirname(values.output), { recursive: true })
+    writeFileSync(values.output, report)
+    const failed = runs.filter((run) => run.diffs.length > 0).length
+    process.stderr.write(`${runs.length - failed}/${runs.length} passed, report written to ${values.output}\n`)
+  } else {
+    process.stdout.write(report)
+  }
+
+  process.exitCode = runs.some((run) => run.diffs.length > 0) ? 1 : 0
+}
+
+main()
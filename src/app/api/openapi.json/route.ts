@@ -0,0 +1,7 @@
+// GET /api/openapi.json - the API contract, generated from the TypeScript types by `npm run openapi`
+import { NextResponse } from "next/server"
+import document from "@/lib/openapi.json"
+
+export function GET() {
+  return NextResponse.json(document)
+}
@@ -0,0 +1,76 @@
+// POST /api/validate/batch - takes a JSON array or NDJSON body of { id, mpin, demographics }
+// records and streams back one NDJSON line per record, keyed by id, then a { summary } line.
+// like /api/validate, nothing is logged and PINs are never echoed
+import { NextResponse } from "next/server"
+import { MPINValidator } from "@/lib/mpin-validator"
+import {
+  addToSummary,
+  createSummary,
+  readJsonArray,
+  readNdjson,
+  validateRecord,
+  type RawRecord,
+} from "@/lib/batch-validation"
+
+const validator = new MPINValidator()
+
+// PIN results must not sit in shared caches, errors included
+const NO_STORE = { "Cache-Control": "no-store" }
+
+export async function POST(request: Request) {
+  if (!request.body) {
+    return NextResponse.json(
+      { error: { code: "BODY_NOT_OBJECT", message: "Request body must be a JSON array or NDJSON" } },
+      { status: 400, headers: NO_STORE },
+    )
+  }
+
+  let records: AsyncIterable<RawRecord> | Iterable<RawRecord>
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    // plain JSON has to be parsed whole, NDJSON is read line by line
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: { code: "INVALID_JSON", message: "Request body must be valid JSON" } },
+        { status: 400, headers: NO_STORE },
+      )
+    }
+    if (!Array.isArray(body)) {
+      return NextResponse.json(
+        { error: { code: "BODY_NOT_OBJECT", message: "JSON body must be an array of records" } },
+        { status: 400, headers: NO_STORE },
+      )
+    }
+    records = readJsonArray(body)
+  } else {
+    records = readNdjson(request.body)
+  }
+
+  const encoder = new TextEncoder()
+  const iterator = (Symbol.asyncIterator in records
+    ? records[Symbol.asyncIterator]()
+    : records[Symbol.iterator]()) as AsyncIterator<RawRecord> | Iterator<RawRecord>
+  const summary = createSummary()
+
+  // pull based, so a slow client slows down reading instead of piling up results in memory
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await iterator.next()
+      if (next.done) {
+        controller.enqueue(encoder.encode(JSON.stringify({ summary }) + "\n"))
+        controller.close()
+        return
+      }
+
+      const line = validateRecord(validator, next.value)
+      addToSummary(summary, line)
+      controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"))
+    },
+  })
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson", ...NO_STORE },
+  })
+}
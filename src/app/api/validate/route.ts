@@ -0,0 +1,31 @@
+// POST /api/validate - runs the validator on the server, so the check cannot be skipped in the browser.
+// nothing here logs the request, and the response leaves out the spans, details and exact common-list
+// rank of the ValidationResult
+import { NextResponse } from "next/server"
+import { MPINValidator } from "@/lib/mpin-validator"
+import { parseValidationRequest, toValidationResponse, type RequestError } from "@/lib/validation-request"
+
+const validator = new MPINValidator()
+
+// PIN results must not sit in shared caches
+const NO_STORE = { "Cache-Control": "no-store" }
+
+const badRequest = (error: RequestError) => NextResponse.json({ error }, { status: 400, headers: NO_STORE })
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest({ code: "INVALID_JSON", message: "Request body must be valid JSON" })
+  }
+
+  const parsed = parseValidationRequest(body)
+  if (!parsed.ok) return badRequest(parsed.error)
+
+  const { mpin, demographics } = parsed.value
+  const outcome = validator.validateMPINStrict(mpin, demographics)
+  if (!outcome.ok) return badRequest(outcome.errors[0])
+
+  return NextResponse.json(toValidationResponse(outcome.result, validator, mpin.length), { headers: NO_STORE })
+}
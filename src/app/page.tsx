@@ -1,5 +1,5 @@
 // main page for the frontend
-"use client" // only client side , no backend
+"use client" // client side page, the same validator also runs server side at /api/validate
 
 import { useState } from "react"
 // shadcn/ui reusable components
@@ -11,9 +11,29 @@ import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 
-import { Shield, ShieldAlert, Calendar, User, TestTube, Github, Info } from "lucide-react"
+import { BarChart3, Shield, ShieldAlert, Calendar, Check, Copy, Eye, EyeOff, Hash, User, TestTube, Github, Info } from "lucide-react"
 import { MPINValidator, type Demographics, type ValidationResult } from "@/lib/mpin-validator"
+import { formatDuration } from "@/lib/guess-estimator"
+import type { InputError } from "@/lib/input-validation"
 import { TestRunner } from "@/components/test-runner"
+import { DatasetAnalysis } from "@/components/dataset-analysis"
+import { getReasonDescription, ScoreBar } from "@/components/mpin-strength-meter"
+import { MPINDigitPreview } from "@/components/mpin-digit-preview"
+import { useMPINValidation } from "@/components/use-mpin-validation"
+
+// lengths offered in the UI, the validator itself handles 4 to 12
+const PIN_LENGTH_OPTIONS = [4, 5, 6, 8]
+
+// one instance for the page, building it loads the common PIN lists
+const validator = new MPINValidator()
+
+const IDENTIFIER_FIELDS: Array<{ field: keyof Demographics; label: string; placeholder: string }> = [
+  { field: "phoneNumber", label: "Phone Number", placeholder: "+91 98765 43210" },
+  { field: "vehicleNumber", label: "Vehicle Registration Number", placeholder: "MH 12 AB 3456" },
+  { field: "postalCode", label: "Postal Code", placeholder: "560001" },
+  { field: "houseNumber", label: "House Number", placeholder: "221B" },
+  { field: "accountNumber", label: "Account / Card Number (last digits)", placeholder: "XXXX 4821" },
+]
 
 export default function MPINValidatorApp() {
   const [mpin, setMpin] = useState("")
@@ -21,20 +41,61 @@ export default function MPINValidatorApp() {
     dob: "",
     spouseDob: "",
     anniversary: "",
+    phoneNumber: "",
+    vehicleNumber: "",
+    postalCode: "",
+    houseNumber: "",
+    accountNumber: "",
   })
   const [result, setResult] = useState<ValidationResult | null>(null)
-  const [pinLength, setPinLength] = useState<4 | 6>(4)
+  const [pinLength, setPinLength] = useState(4)
   const [showAbout, setShowAbout] = useState(false)
-
-  const validator = new MPINValidator()
+  const [suggestions, setSuggestions] = useState<{ random: string[]; close: string[] } | null>(null)
+  const [copiedPin, setCopiedPin] = useState<string | null>(null)
+  const [copyFailed, setCopyFailed] = useState(false)
+  const [inputErrors, setInputErrors] = useState<InputError[]>([])
+  const [showPreview, setShowPreview] = useState(false)
+  // live result for the digit preview, the button below still does the full analysis
+  const live = useMPINValidation(showPreview ? mpin : "", { demographics, delay: 150 })
 
   const handleValidate = () => {
     if (mpin.length !== pinLength) {
-      alert(`Please enter a ${pinLength}-digit PIN`)
+      setInputErrors([{ code: "UNSUPPORTED_LENGTH", field: "mpin", message: `Please enter a ${pinLength}-digit PIN` }])
+      setResult(null)
+      setSuggestions(null)
+      return
+    }
+    const outcome = validator.validateMPINStrict(mpin, demographics)
+    if (!outcome.ok) {
+      setInputErrors(outcome.errors)
+      setResult(null)
+      setSuggestions(null)
       return
     }
-    const validationResult = validator.validateMPIN(mpin, demographics)
+    const validationResult = outcome.result
+    setInputErrors([])
     setResult(validationResult)
+    setSuggestions(
+      validationResult.strength === "WEAK"
+        ? {
+            random: validator.suggestStrongPINs(pinLength, demographics, 3),
+            close: validator.suggestStrongPINs(pinLength, demographics, 2, { closeTo: mpin }),
+          }
+        : null,
+    )
+  }
+
+  // the clipboard API is missing on insecure origins and can be refused by the user
+  const handleCopy = async (pin: string) => {
+    try {
+      if (!navigator.clipboard) throw new Error("Clipboard not available")
+      await navigator.clipboard.writeText(pin)
+      setCopyFailed(false)
+      setCopiedPin(pin)
+      setTimeout(() => setCopiedPin((current) => (current === pin ? null : current)), 1500)
+    } catch {
+      setCopyFailed(true)
+    }
   }
 
   const handleDemographicChange = (field: keyof Demographics, value: string) => {
@@ -88,16 +149,16 @@ export default function MPINValidatorApp() {
             </CardHeader>
             <CardContent className="space-y-2 text-gray-700">
               <p>
-                <strong>Tech Stack:</strong> This project is built using React, TypeScript, and Shadcn UI for the frontend. The logic and validation are handled completely on the client side.
+                <strong>Tech Stack:</strong> This project is built using React, TypeScript, and Shadcn UI for the frontend. The validation runs in the browser for instant feedback, and on the server through the /api/validate endpoint.
               </p>
               <p>
                 <strong>MPIN Validation Logic:</strong> The MPIN validator checks for common patterns, personal information (like date of birth, anniversary), and uses some rules to determine the strength of the entered PIN(strong or weak).
               </p>
               <p>
-                <strong>Data Science Algorithms:</strong> The project uses pattern recognition such as repetition of digits, sequence(ascending or descending order) and frequency analysis to detect weak MPINs.
+                <strong>Data Science Algorithms:</strong> The project uses pattern recognition such as repetition of digits, sequence(ascending or descending order), arithmetic progressions, palindromes, keypad shapes and frequency analysis to detect weak MPINs.
               </p>
               <p>
-                <strong>Testing:</strong> The test suite runs multiple cases to verify the accuracy and reliability of the validation logic.
+                <strong>Testing:</strong> The test suite runs multiple cases to verify the accuracy and reliability of the validation logic. The Dataset Analysis tab audits a whole file of PINs in the browser.
               </p>
               
             </CardContent>
@@ -106,7 +167,7 @@ export default function MPINValidatorApp() {
 
        
         <Tabs defaultValue="validator" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="validator" className="flex items-center gap-2">
               <Shield className="h-4 w-4" />
               MPIN Validator
@@ -115,6 +176,10 @@ export default function MPINValidatorApp() {
               <TestTube className="h-4 w-4" />
               Test Suite
             </TabsTrigger>
+            <TabsTrigger value="dataset" className="flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Dataset Analysis
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="validator" className="space-y-6">
@@ -134,35 +199,46 @@ export default function MPINValidatorApp() {
                   {/* PIN Length Selection */}
                   <div className="space-y-2">
                     <Label>PIN Length</Label>
-                    <div className="flex gap-2">
-                      <Button
-                        variant={pinLength === 4 ? "default" : "outline"}
-                        onClick={() => setPinLength(4)}
-                        size="sm"
-                      >
-                        4-digit
-                      </Button>
-                      <Button
-                        variant={pinLength === 6 ? "default" : "outline"}
-                        onClick={() => setPinLength(6)}
-                        size="sm"
-                      >
-                        6-digit
-                      </Button>
+                    <div className="flex flex-wrap gap-2">
+                      {PIN_LENGTH_OPTIONS.map((length) => (
+                        <Button
+                          key={length}
+                          variant={pinLength === length ? "default" : "outline"}
+                          onClick={() => {
+                            setPinLength(length)
+                            setMpin((prev) => prev.slice(0, length))
+                          }}
+                          size="sm"
+                        >
+                          {length}-digit
+                        </Button>
+                      ))}
                     </div>
                   </div>
 
                   {/* MPIN Input */}
                   <div className="space-y-2">
                     <Label htmlFor="mpin">MPIN</Label>
-                    <Input
-                      id="mpin"
-                      type="password"
-                      placeholder={`Enter ${pinLength}-digit MPIN`}
-                      value={mpin}
-                      onChange={(e) => setMpin(e.target.value.replace(/\D/g, "").slice(0, pinLength))}
-                      maxLength={pinLength}
-                    />
+                    <div className="flex gap-2">
+                      <Input
+                        id="mpin"
+                        type="password"
+                        placeholder={`Enter ${pinLength}-digit MPIN`}
+                        value={mpin}
+                        onChange={(e) => setMpin(e.target.value.replace(/\D/g, "").slice(0, pinLength))}
+                        maxLength={pinLength}
+                      />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setShowPreview((v) => !v)}
+                        title={showPreview ? "Hide digit preview" : "Show which digits are weak"}
+                      >
+                        {showPreview ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                    {/* unmasked on purpose, only while the user asks for it */}
+                    {showPreview && mpin && <MPINDigitPreview mpin={mpin} result={live.result} />}
                   </div>
 
                   {/* Demographics */}
@@ -202,6 +278,35 @@ export default function MPINValidatorApp() {
                     </div>
                   </div>
 
+                  {/* Personal Identifiers */}
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Hash className="h-4 w-4" />
+                      Personal Identifiers (Optional)
+                    </div>
+                    {IDENTIFIER_FIELDS.map(({ field, label, placeholder }) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={field}>{label}</Label>
+                        <Input
+                          id={field}
+                          placeholder={placeholder}
+                          value={demographics[field]}
+                          onChange={(e) => handleDemographicChange(field, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  {inputErrors.length > 0 && (
+                    <div className="space-y-1">
+                      {inputErrors.map((error) => (
+                        <Alert key={`${error.field}-${error.code}`} variant="destructive">
+                          <AlertDescription className="text-sm">{error.message}</AlertDescription>
+                        </Alert>
+                      ))}
+                    </div>
+                  )}
+
                   <Button onClick={handleValidate} className="w-full" disabled={!mpin}>
                     Validate MPIN Security
                   </Button>
@@ -230,47 +335,107 @@ export default function MPINValidatorApp() {
                           {result.strength}
                         </Badge>
                       </div>
+                      {result.commonPinRank !== null && (
+                        <div className="text-sm text-gray-600">
+                          Ranked <span className="font-medium">#{result.commonPinRank}</span> among the most common{" "}
+                          {mpin.length}-digit PINs
+                        </div>
+                      )}
                       {result.weaknessReasons.length > 0 && (
                         <div className="space-y-2">
                           <span className="text-sm font-medium text-red-600">Security Issues:</span>
                           <div className="space-y-1">
-                            {result.weaknessReasons.map((reason, index) => (
-                              <Alert key={index} variant="destructive">
-                                <AlertDescription className="text-sm">{getReasonDescription(reason)}</AlertDescription>
-                              </Alert>
-                            ))}
+                            {result.findings
+                              .filter((finding) => finding.severity === "blocking")
+                              .map((finding, index) => (
+                                <Alert key={index} variant="destructive">
+                                  <AlertDescription className="text-sm">
+                                    {getReasonDescription(finding.code)}
+                                    {finding.field && finding.detail && ` (${finding.detail})`}
+                                  </AlertDescription>
+                                </Alert>
+                              ))}
                           </div>
                         </div>
                       )}
                       <div className="space-y-2">
                         <div className="flex justify-between text-sm">
                           <span>Security Score</span>
-                          <span className="font-medium">{result.securityScore}/100</span>
-                        </div>
-                        <div className="w-full bg-gray-200 rounded-full h-2">
-                          <div
-                            className={`h-2 rounded-full transition-all duration-500 ${
-                              result.securityScore >= 70
-                                ? "bg-green-500"
-                                : result.securityScore >= 40
-                                ? "bg-yellow-500"
-                                : "bg-red-500"
-                            }`}
-                            style={{ width: `${result.securityScore}%` }}
-                          />
+                          <span className="font-medium">
+                            {result.securityScore}/{validator.getPolicy().thresholds.maxScore}
+                          </span>
                         </div>
+                        <ScoreBar score={result.securityScore} maxScore={validator.getPolicy().thresholds.maxScore} />
+                      </div>
+                      <div className="space-y-2">
+                        <span className="text-sm font-medium">Attack Resistance:</span>
+                        <p className="text-sm text-gray-600">
+                          An attacker finds this PIN within the first{" "}
+                          <span className="font-medium">{result.guessEstimate.guesses.toLocaleString()}</span>{" "}
+                          {result.guessEstimate.guesses === 1 ? "guess" : "guesses"} ({result.guessEstimate.basis})
+                        </p>
+                        <ul className="text-sm text-gray-600 space-y-1">
+                          {result.guessEstimate.attacks.map((attack) => (
+                            <li key={attack.id} className="flex justify-between gap-2">
+                              <span>{attack.label}</span>
+                              <span className={`font-medium ${attack.kind === "lockout" && attack.compromised ? "text-red-600" : ""}`}>
+                                {attack.seconds === null
+                                  ? attack.compromised
+                                    ? "Compromised"
+                                    : "Locked out first"
+                                  : formatDuration(attack.seconds)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
                       </div>
                       {result.strength === "WEAK" && (
                         <div className="space-y-2">
                           <span className="text-sm font-medium text-blue-600">Recommendations:</span>
                           <ul className="text-sm text-gray-600 space-y-1 list-disc list-inside">
                             <li>Avoid common patterns like 1234, 1111, or 0000</li>
-                            <li>Don't use dates related to you or your family</li>
+                            <li>Don&apos;t use dates related to you or your family</li>
                             <li>Use a random combination of digits</li>
                             <li>Consider using a longer PIN for better security</li>
                           </ul>
                         </div>
                       )}
+                      {suggestions && (
+                        <div className="space-y-2">
+                          <span className="text-sm font-medium text-blue-600">Suggested Strong PINs:</span>
+                          {[
+                            { title: "Random", pins: suggestions.random },
+                            { title: "Close to yours", pins: suggestions.close },
+                          ].map(({ title, pins }) =>
+                            pins.length > 0 ? (
+                              <div key={title} className="space-y-1">
+                                <div className="text-xs text-gray-500">{title}</div>
+                                <div className="flex flex-wrap gap-2">
+                                  {pins.map((pin) => (
+                                    <div key={pin} className="flex items-center gap-1">
+                                      <Badge variant="outline" className="font-mono">
+                                        {pin}
+                                      </Badge>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6"
+                                        onClick={() => handleCopy(pin)}
+                                        title="Copy PIN"
+                                      >
+                                        {copiedPin === pin ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                                      </Button>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            ) : null,
+                          )}
+                          {copyFailed && (
+                            <div className="text-xs text-red-600">Could not copy, select the PIN and copy it by hand</div>
+                          )}
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="text-center text-gray-500 py-8">
@@ -286,18 +451,12 @@ export default function MPINValidatorApp() {
           <TabsContent value="testing">
             <TestRunner />
           </TabsContent>
+
+          <TabsContent value="dataset">
+            <DatasetAnalysis />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
   )
 }
-
-function getReasonDescription(reason: string): string {
-  const descriptions = {
-    COMMONLY_USED: "This PIN is commonly used and easily guessable",
-    DEMOGRAPHIC_DOB_SELF: "PIN contains patterns from your date of birth",
-    DEMOGRAPHIC_DOB_SPOUSE: "PIN contains patterns from your spouse's date of birth",
-    DEMOGRAPHIC_ANNIVERSARY: "PIN contains patterns from your wedding anniversary",
-  }
-  return descriptions[reason as keyof typeof descriptions] || reason
-}
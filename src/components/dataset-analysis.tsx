@@ -0,0 +1,288 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+
+import { BarChart3, RotateCcw, Upload } from "lucide-react"
+import { MPINValidator } from "@/lib/mpin-validator"
+import { analyseDataset, readPinList, SCORE_BUCKETS, topEntries, type DatasetStats } from "@/lib/dataset-analysis"
+import { getReasonDescription } from "@/components/mpin-strength-meter"
+import type { DatasetRequest, DatasetResponse } from "@/components/dataset-analysis.worker"
+
+const percent = (part: number, whole: number) => (whole === 0 ? "0%" : `${((part / whole) * 100).toFixed(1)}%`)
+
+type Progress = (done: number, total: number) => void
+
+// a failed run terminates the worker, the caller starts a fresh one for the next file
+function analyseInWorker(worker: Worker, pins: string[], onProgress: Progress): Promise<DatasetStats> {
+  return new Promise((resolve, reject) => {
+    const fail = (message: string) => {
+      worker.terminate()
+      reject(new Error(message))
+    }
+    worker.onmessage = ({ data }: MessageEvent<DatasetResponse>) => {
+      if (data.type === "progress") onProgress(data.done, data.total)
+      else if (data.type === "done") resolve(data.stats)
+      else fail(data.message)
+    }
+    // a throw inside the worker, or a message that cannot be deserialized, would otherwise never settle
+    worker.onerror = (event) => {
+      event.preventDefault()
+      fail(event.message || "The analysis worker stopped")
+    }
+    worker.onmessageerror = () => fail("A message from the analysis worker could not be read")
+    worker.postMessage({ pins } satisfies DatasetRequest)
+  })
+}
+
+// audit of a whole PIN population, the file is read and validated in the browser only
+export function DatasetAnalysis() {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [stats, setStats] = useState<DatasetStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const worker = useRef<Worker | null>(null)
+
+  useEffect(() => () => worker.current?.terminate(), [])
+
+  // large files run in a worker, the main thread is only the fallback
+  const analyse = (pins: string[], onProgress: Progress) => {
+    if (typeof Worker === "undefined") return analyseDataset(new MPINValidator(), pins, { onProgress })
+    worker.current ??= new Worker(new URL("./dataset-analysis.worker.ts", import.meta.url))
+    return analyseInWorker(worker.current, pins, onProgress).catch((error) => {
+      worker.current = null
+      throw error
+    })
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setStats(null)
+    setError(null)
+
+    try {
+      const pins = readPinList(await file.text())
+      if (pins.length === 0) {
+        setError("No PINs found. Use one PIN per line, or a CSV with an mpin column.")
+        return
+      }
+
+      setProgress({ done: 0, total: new Set(pins).size })
+      setStats(await analyse(pins, (done, total) => setProgress({ done, total })))
+    } catch (error) {
+      setError(`Analysis failed: ${(error as Error).message}`)
+    }
+    setProgress(null)
+  }
+
+  const reset = () => {
+    setFileName(null)
+    setStats(null)
+    setError(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Dataset Analysis
+          </CardTitle>
+          <CardDescription>
+            Upload a CSV (with an mpin column) or a text file with one PIN per line. The file is analysed in your
+            browser and never uploaded.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="dataset" className="flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                PIN file
+              </Label>
+              <Input
+                id="dataset"
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                disabled={progress !== null}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0])
+                  e.target.value = "" // lets the same file be picked again after Clear
+                }}
+              />
+            </div>
+            <Button variant="outline" onClick={reset} disabled={progress !== null || (!stats && !error)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+
+          {progress && (
+            <div className="text-sm text-gray-600">
+              Analysing {fileName}: {progress.done.toLocaleString()} of {progress.total.toLocaleString()} distinct PINs
+            </div>
+          )}
+
+          {stats && fileName && <div className="text-sm text-gray-600">Results for {fileName}</div>}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription className="text-sm">{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "PINs", value: stats.total },
+              { label: "Distinct", value: stats.unique },
+              { label: "Analysed", value: stats.analysed },
+              { label: "Skipped", value: stats.skipped },
+            ].map(({ label, value }) => (
+              <Card key={label}>
+                <CardContent className="pt-6 text-center">
+                  <div className="text-2xl font-bold">{value.toLocaleString()}</div>
+                  <div className="text-sm text-gray-600">{label}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Strength</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex h-4 w-full overflow-hidden rounded-full bg-gray-200">
+                  <div className="bg-green-500" style={{ width: percent(stats.byStrength.STRONG, stats.analysed) }} />
+                  <div className="bg-red-500" style={{ width: percent(stats.byStrength.WEAK, stats.analysed) }} />
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-green-600">
+                    STRONG {percent(stats.byStrength.STRONG, stats.analysed)} ({stats.byStrength.STRONG.toLocaleString()})
+                  </span>
+                  <span className="text-red-600">
+                    WEAK {percent(stats.byStrength.WEAK, stats.analysed)} ({stats.byStrength.WEAK.toLocaleString()})
+                  </span>
+                </div>
+                {stats.skipped > 0 && (
+                  <div className="text-xs text-gray-500">
+                    Skipped:{" "}
+                    {topEntries(stats.byError)
+                      .map(([code, count]) => `${code} ${count.toLocaleString()}`)
+                      .join(", ")}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Security Score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScoreHistogram buckets={stats.scoreHistogram} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Top Patterns</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RankedBars entries={topEntries(stats.patterns)} total={stats.analysed} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Top Weakness Reasons</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RankedBars
+                  entries={topEntries(stats.reasons).map(([code, count]) => [getReasonDescription(code), count])}
+                  total={stats.analysed}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Most Used PINs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {stats.topPins.map(({ pin, count, strength }) => (
+                  <div key={pin} className="flex items-center justify-between gap-2 rounded border p-2 text-sm">
+                    <span className="font-mono">{pin}</span>
+                    <span className="text-gray-600">{count.toLocaleString()}</span>
+                    <Badge variant={strength === "STRONG" ? "default" : strength ? "destructive" : "outline"}>
+                      {strength ?? "invalid"}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
+
+function ScoreHistogram({ buckets }: { buckets: number[] }) {
+  const highest = Math.max(1, ...buckets)
+  const width = 100 / SCORE_BUCKETS
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-40 items-end gap-1">
+        {buckets.map((count, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-t ${i * width >= 70 ? "bg-green-500" : i * width >= 40 ? "bg-yellow-500" : "bg-red-500"}`}
+            style={{ height: `${(count / highest) * 100}%` }}
+            title={`${i * width}-${i === buckets.length - 1 ? 100 : (i + 1) * width - 1}: ${count.toLocaleString()} PINs`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>0</span>
+        <span>50</span>
+        <span>100</span>
+      </div>
+    </div>
+  )
+}
+
+function RankedBars({ entries, total }: { entries: Array<[string, number]>; total: number }) {
+  if (entries.length === 0) return <p className="text-sm text-gray-500">None found</p>
+
+  return (
+    <ul className="space-y-2">
+      {entries.map(([label, count]) => (
+        <li key={label} className="space-y-1 text-sm">
+          <div className="flex justify-between gap-2">
+            <span className="truncate">{label}</span>
+            <span className="text-gray-600">{percent(count, total)}</span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-200">
+            <div className="h-2 rounded-full bg-blue-500" style={{ width: percent(count, total) }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,34 @@
+// runs analyseDataset off the main thread so the page stays responsive on large files.
+// the validator lives as long as the worker, so lookup tables built for one file serve the next
+import { MPINValidator } from "@/lib/mpin-validator"
+import { analyseDataset, type DatasetStats } from "@/lib/dataset-analysis"
+
+export interface DatasetRequest {
+  pins: string[]
+}
+
+export type DatasetResponse =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; stats: DatasetStats }
+  | { type: "error"; message: string }
+
+// building the tables costs about one pass over the 4- and 6-digit spaces, smaller files are
+// faster without them
+const PRECOMPUTE_MIN_PINS = 100_000
+
+const validator = new MPINValidator()
+const reply = (response: DatasetResponse) => self.postMessage(response)
+
+self.onmessage = async ({ data }: MessageEvent<DatasetRequest>) => {
+  try {
+    if (validator.getPrecomputedLengths().length === 0 && new Set(data.pins).size >= PRECOMPUTE_MIN_PINS) {
+      validator.precompute()
+    }
+    const stats = await analyseDataset(validator, data.pins, {
+      onProgress: (done, total) => reply({ type: "progress", done, total }),
+    })
+    reply({ type: "done", stats })
+  } catch (error) {
+    reply({ type: "error", message: (error as Error).message })
+  }
+}
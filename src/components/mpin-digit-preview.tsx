@@ -0,0 +1,81 @@
+"use client"
+
+import type { Demographics, Finding, ValidationResult } from "@/lib/mpin-validator"
+import { getReasonDescription } from "@/components/mpin-strength-meter"
+
+// spelled out in the legend, "these 4 digits are your date of birth (DDMM)"
+const FIELD_NAMES: Record<keyof Demographics, string> = {
+  dob: "date of birth",
+  spouseDob: "spouse's date of birth",
+  anniversary: "wedding anniversary",
+  phoneNumber: "phone number",
+  vehicleNumber: "vehicle registration number",
+  postalCode: "postal code",
+  houseNumber: "house number",
+  accountNumber: "account or card number",
+}
+
+// one colour per finding, in the order they are listed
+const COLOURS = [
+  "bg-red-200 text-red-900 border-red-400",
+  "bg-amber-200 text-amber-900 border-amber-400",
+  "bg-purple-200 text-purple-900 border-purple-400",
+  "bg-sky-200 text-sky-900 border-sky-400",
+  "bg-pink-200 text-pink-900 border-pink-400",
+  "bg-lime-200 text-lime-900 border-lime-400",
+]
+
+interface MPINDigitPreviewProps {
+  mpin: string
+  result: ValidationResult | null
+}
+
+// unmasked PIN with each digit coloured by the finding that covers it
+export function MPINDigitPreview({ mpin, result }: MPINDigitPreviewProps) {
+  // blocking findings take the colour when spans overlap
+  const findings = (result?.findings ?? [])
+    .filter((finding) => finding.span && finding.span.end > finding.span.start)
+    .sort((a, b) => Number(b.severity === "blocking") - Number(a.severity === "blocking"))
+
+  const owner = (index: number) =>
+    findings.findIndex((finding) => finding.span!.start <= index && index < finding.span!.end)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1 font-mono">
+        {mpin.split("").map((digit, index) => {
+          const finding = owner(index)
+          return (
+            <span
+              key={index}
+              className={`flex h-8 w-7 items-center justify-center rounded border text-base ${
+                finding === -1 ? "bg-white border-gray-200" : COLOURS[finding % COLOURS.length]
+              }`}
+            >
+              {digit}
+            </span>
+          )
+        })}
+      </div>
+      {findings.length > 0 && (
+        <ul className="space-y-1 text-xs text-gray-600">
+          {findings.map((finding, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <span className={`h-3 w-3 shrink-0 rounded border ${COLOURS[index % COLOURS.length]}`} />
+              {describeSpan(finding)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function describeSpan(finding: Finding): string {
+  const { start, end } = finding.span!
+  const digits = end - start === 1 ? `digit ${start + 1}` : `digits ${start + 1}-${end}`
+  if (finding.field) {
+    return `${digits}: your ${FIELD_NAMES[finding.field]}${finding.detail ? ` (${finding.detail})` : ""}`
+  }
+  return `${digits}: ${getReasonDescription(finding.code)}${finding.detail ? ` (${finding.detail})` : ""}`
+}
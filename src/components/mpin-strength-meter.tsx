@@ -0,0 +1,106 @@
+"use client"
+
+import { useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import type { Demographics, ValidationResult } from "@/lib/mpin-validator"
+import type { ValidationPolicyOverrides } from "@/lib/validation-policy"
+import { useMPINValidation } from "@/components/use-mpin-validation"
+
+interface MPINStrengthMeterProps {
+  mpin: string
+  policy?: ValidationPolicyOverrides
+  demographics?: Demographics
+  delay?: number
+  showReasons?: boolean // list blocking findings under the bar, default true
+  onResult?: (result: ValidationResult | null) => void
+}
+
+// drop-in meter for signup and change-PIN screens, validates as the user types
+export function MPINStrengthMeter({
+  mpin,
+  policy,
+  demographics,
+  delay,
+  showReasons = true,
+  onResult,
+}: MPINStrengthMeterProps) {
+  const { result, errors, validator } = useMPINValidation(mpin, { policy, demographics, delay })
+  const { maxScore } = validator.getPolicy().thresholds
+
+  useEffect(() => {
+    onResult?.(result)
+  }, [result, onResult])
+
+  if (errors.length > 0) {
+    return (
+      <ul className="text-sm text-red-600 space-y-1">
+        {errors.map((error) => (
+          <li key={`${error.field}-${error.code}`}>{error.message}</li>
+        ))}
+      </ul>
+    )
+  }
+
+  if (!result) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <Badge variant={result.strength === "STRONG" ? "default" : "destructive"}>{result.strength}</Badge>
+        <span className="font-medium">
+          {result.securityScore}/{maxScore}
+        </span>
+      </div>
+      <ScoreBar score={result.securityScore} maxScore={maxScore} />
+      {showReasons && result.weaknessReasons.length > 0 && (
+        <ul className="text-sm text-red-600 space-y-1 list-disc list-inside">
+          {result.findings
+            .filter((finding) => finding.severity === "blocking")
+            .map((finding, index) => (
+              <li key={index}>{getReasonDescription(finding.code)}</li>
+            ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+// policies can set their own maxScore, the bar and its colours go by the share of it
+export function ScoreBar({ score, maxScore = 100 }: { score: number; maxScore?: number }) {
+  const percent = Math.min(100, Math.max(0, (score / maxScore) * 100))
+  return (
+    <div className="w-full bg-gray-200 rounded-full h-2">
+      <div
+        className={`h-2 rounded-full transition-all duration-500 ${
+          percent >= 70 ? "bg-green-500" : percent >= 40 ? "bg-yellow-500" : "bg-red-500"
+        }`}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  )
+}
+
+export function getReasonDescription(reason: string): string {
+  const descriptions = {
+    COMMONLY_USED: "This PIN is commonly used and easily guessable",
+    REPEATED_DIGITS: "Digits repeat (like 1122)",
+    SEQUENTIAL_PATTERN: "Digits go up or down one at a time (like 1234)",
+    KEYBOARD_PATTERN: "Digits trace a shape on the keypad",
+    ARITHMETIC_PROGRESSION: "Digits go up or down in equal steps (like 1357)",
+    WRAP_AROUND_SEQUENCE: "Digits form a sequence that wraps around 9 and 0 (like 7890)",
+    PALINDROME: "PIN reads the same backwards (like 1221)",
+    ALTERNATING_PAIRS: "PIN alternates between two digits (like 1212)",
+    PARTIAL_RUN: "Most of the PIN is a simple sequence (like 1239)",
+    DEMOGRAPHIC_DOB_SELF: "PIN contains patterns from your date of birth",
+    DEMOGRAPHIC_DOB_SPOUSE: "PIN contains patterns from your spouse's date of birth",
+    DEMOGRAPHIC_ANNIVERSARY: "PIN contains patterns from your wedding anniversary",
+    DEMOGRAPHIC_PHONE: "PIN reuses digits from your phone number",
+    DEMOGRAPHIC_VEHICLE: "PIN reuses digits from your vehicle registration number",
+    DEMOGRAPHIC_POSTAL_CODE: "PIN reuses digits from your postal code",
+    DEMOGRAPHIC_HOUSE_NUMBER: "PIN reuses your house number",
+    DEMOGRAPHIC_ACCOUNT_NUMBER: "PIN reuses digits from your account or card number",
+    REUSED_PREVIOUS_PIN: "This PIN was used before",
+    SIMILAR_TO_PREVIOUS_PIN: "PIN is a small change from a previous PIN",
+  }
+  return descriptions[reason as keyof typeof descriptions] || reason
+}
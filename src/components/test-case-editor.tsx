@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { DEMOGRAPHIC_FIELDS, type Demographics } from "@/lib/mpin-validator"
+import type { TestCase, TestExpectation } from "@/lib/test-cases"
+
+interface TestCaseEditorProps {
+  initial?: TestCase
+  onSave: (testCase: TestCase) => void
+  onCancel: () => void
+}
+
+// lists are edited as comma separated text
+const toList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const toNumber = (text: string) => (text.trim() === "" ? undefined : Number(text))
+
+export function TestCaseEditor({ initial, onSave, onCancel }: TestCaseEditorProps) {
+  const score = initial?.expected.securityScore
+  const [name, setName] = useState(initial?.name ?? "")
+  const [mpin, setMpin] = useState(initial?.mpin ?? "")
+  const [demographics, setDemographics] = useState<Demographics>(initial?.demographics ?? {})
+  const [strength, setStrength] = useState<TestExpectation["strength"]>(initial?.expected.strength)
+  const [reasons, setReasons] = useState(initial?.expected.weaknessReasons?.join(", ") ?? "")
+  const [patterns, setPatterns] = useState(initial?.expected.detectedPatterns?.join(", ") ?? "")
+  const [scoreMin, setScoreMin] = useState(String(typeof score === "number" ? score : (score?.min ?? "")))
+  const [scoreMax, setScoreMax] = useState(String(typeof score === "number" ? score : (score?.max ?? "")))
+
+  const min = toNumber(scoreMin)
+  const max = toNumber(scoreMax)
+  const invalidScore = (min !== undefined && Number.isNaN(min)) || (max !== undefined && Number.isNaN(max))
+
+  const handleSave = () => {
+    const expected: TestExpectation = {}
+    if (strength) expected.strength = strength
+    // an empty reasons box on a WEAK case means "don't check", on a STRONG case it means none
+    if (reasons.trim() || strength === "STRONG") expected.weaknessReasons = toList(reasons)
+    if (patterns.trim()) expected.detectedPatterns = toList(patterns)
+    if (min !== undefined || max !== undefined) {
+      expected.securityScore = min === max ? min : { min, max }
+    }
+
+    // blank demographic fields are left out of the saved case
+    const filled = Object.fromEntries(Object.entries(demographics).filter(([, value]) => value))
+    onSave({ ...(name.trim() && { name: name.trim() }), mpin, demographics: filled, expected })
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="case-name">Name (optional)</Label>
+          <Input id="case-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="case-mpin">MPIN</Label>
+          <Input id="case-mpin" className="font-mono" value={mpin} onChange={(e) => setMpin(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Demographics</Label>
+        <div className="grid md:grid-cols-2 gap-2">
+          {DEMOGRAPHIC_FIELDS.map((field) => (
+            <Input
+              key={field}
+              placeholder={field}
+              value={demographics[field] ?? ""}
+              onChange={(e) => setDemographics((prev) => ({ ...prev, [field]: e.target.value }))}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Expected strength</Label>
+        <div className="flex gap-2">
+          {([undefined, "WEAK", "STRONG"] as const).map((option) => (
+            <Button
+              key={option ?? "any"}
+              size="sm"
+              variant={strength === option ? "default" : "outline"}
+              onClick={() => setStrength(option)}
+            >
+              {option ?? "Any"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="case-reasons">Weakness reasons (exact, comma separated)</Label>
+          <Input
+            id="case-reasons"
+            placeholder="COMMONLY_USED, DEMOGRAPHIC_DOB_SELF"
+            value={reasons}
+            onChange={(e) => setReasons(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="case-patterns">Detected patterns (must include)</Label>
+          <Input
+            id="case-patterns"
+            placeholder="Repeated digits, Keyboard pattern (corner)"
+            value={patterns}
+            onChange={(e) => setPatterns(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Security score range</Label>
+          <div className="flex items-center gap-2">
+            <Input placeholder="min" value={scoreMin} onChange={(e) => setScoreMin(e.target.value)} />
+            <span className="text-gray-500">to</span>
+            <Input placeholder="max" value={scoreMax} onChange={(e) => setScoreMax(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={!mpin || invalidScore}>
+          Save Test Case
+        </Button>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
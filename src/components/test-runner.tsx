@@ -1,70 +1,133 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 // shadcn/ui reusable componenets for design
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import type { Demographics } from "@/lib/mpin-validator"
 
-import { CheckCircle, XCircle, Play, RotateCcw } from "lucide-react"
+import { CheckCircle, XCircle, Play, RotateCcw, Plus, Pencil, Trash2, Upload, Download, Circle } from "lucide-react"
 import { MPINValidator, type ValidationResult } from "@/lib/mpin-validator"
+import {
+  compareResult,
+  describeScore,
+  parseTestSuite,
+  serializeTestSuite,
+  type FieldDiff,
+  type TestCase,
+} from "@/lib/test-cases"
+import { TestCaseEditor } from "@/components/test-case-editor"
 
-interface TestCase {
+interface EditableCase extends TestCase {
   id: number
-  mpin: string
-  demographics: Demographics
-  expected: Partial<ValidationResult>
-  actual?: ValidationResult
-  passed?: boolean
 }
 
+interface CaseResult {
+  actual: ValidationResult
+  diffs: FieldDiff[]
+}
+
+type Filter = "all" | "passed" | "failed"
+
+// the id only lives in the UI, exported files don't carry it
+const withoutId = ({ name, mpin, demographics, expected }: EditableCase): TestCase =>
+  name === undefined ? { mpin, demographics, expected } : { name, mpin, demographics, expected }
+
+const validator = new MPINValidator()
+
 export function TestRunner() {
-  const [testResults, setTestResults] = useState<TestCase[]>([])
+  const nextId = useRef(0)
+  const withIds = (cases: TestCase[]): EditableCase[] => cases.map((testCase) => ({ ...testCase, id: ++nextId.current }))
+
+  const [cases, setCases] = useState<EditableCase[]>(() => withIds(validator.generateTestCases()))
+  const [results, setResults] = useState<Record<number, CaseResult>>({})
   const [isRunning, setIsRunning] = useState(false)
-  const [summary, setSummary] = useState({ total: 0, passed: 0, failed: 0 })
+  const [editing, setEditing] = useState<number | "new" | null>(null)
+  const [filter, setFilter] = useState<Filter>("all")
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
 
-  const validator = new MPINValidator()
+  const ran = cases.filter((testCase) => results[testCase.id])
+  const passed = ran.filter((testCase) => results[testCase.id].diffs.length === 0).length
+  const summary = { total: ran.length, passed, failed: ran.length - passed }
 
   const runTests = async () => {
     setIsRunning(true)
-    const testCases = validator.generateTestCases()
-    const results: TestCase[] = []
+    setResults({})
 
-    for (let i = 0; i < testCases.length; i++) {
-      const testCase = testCases[i]
+    const next: Record<number, CaseResult> = {}
+    for (const testCase of cases) {
       const actual = validator.validateMPIN(testCase.mpin, testCase.demographics)
-
-      const passed =
-        actual.strength === testCase.expected.strength &&
-        JSON.stringify(actual.weaknessReasons.sort()) ===
-          JSON.stringify(testCase.expected.weaknessReasons?.sort() || [])
-
-      results.push({
-        id: i + 1,
-        mpin: testCase.mpin,
-        demographics: testCase.demographics,
-        expected: testCase.expected,
-        actual,
-        passed,
-      })
-
-      await new Promise((resolve) => setTimeout(resolve, 100))
-      setTestResults([...results])
+      next[testCase.id] = { actual, diffs: compareResult(testCase.expected, actual) }
+      setResults({ ...next })
+      // let results show up as they come in
+      await new Promise((resolve) => setTimeout(resolve, 0))
     }
 
-    const passed = results.filter((r) => r.passed).length
-    const failed = results.length - passed
-    setSummary({ total: results.length, passed, failed })
     setIsRunning(false)
   }
 
   const resetTests = () => {
-    setTestResults([])
-    setSummary({ total: 0, passed: 0, failed: 0 })
+    setResults({})
+    setFilter("all")
+  }
+
+  const restoreBuiltIn = () => {
+    setCases(withIds(validator.generateTestCases()))
+    setResults({})
+    setEditing(null)
+  }
+
+  // an edited case has to be run again
+  const clearResult = (id: number) =>
+    setResults((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => Number(key) !== id)))
+
+  const saveCase = (testCase: TestCase) => {
+    if (editing === "new") {
+      setCases((prev) => [...prev, ...withIds([testCase])])
+    } else if (editing !== null) {
+      setCases((prev) => prev.map((existing) => (existing.id === editing ? { ...testCase, id: editing } : existing)))
+      clearResult(editing)
+    }
+    setEditing(null)
+  }
+
+  const deleteCase = (id: number) => {
+    setCases((prev) => prev.filter((testCase) => testCase.id !== id))
+    clearResult(id)
+  }
+
+  const exportCases = () => {
+    const blob = new Blob([serializeTestSuite(cases.map(withoutId))], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "mpin-test-cases.json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importCases = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setCases(withIds(parseTestSuite(await file.text())))
+      setResults({})
+      setEditing(null)
+      setImportError(null)
+    } catch (error) {
+      setImportError((error as Error).message)
+    }
   }
 
+  const visible = cases.filter((testCase) => {
+    const result = results[testCase.id]
+    if (filter === "passed") return result && result.diffs.length === 0
+    if (filter === "failed") return result && result.diffs.length > 0
+    return true
+  })
+
   return (
     <div className="space-y-6">
       {/* Test Controls */}
@@ -74,20 +137,54 @@ export function TestRunner() {
             <Play className="h-5 w-5" />
             Test Suite Runner
           </CardTitle>
-          <CardDescription>Comprehensive testing of MPIN validation logic with 20+ test cases</CardDescription>
+          <CardDescription>
+            {cases.length} test cases. Add, edit or import cases to build your own regression suite.
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex gap-2">
-            <Button onClick={runTests} disabled={isRunning}>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={runTests} disabled={isRunning || cases.length === 0}>
               {isRunning ? "Running Tests..." : "Run All Tests"}
             </Button>
             <Button variant="outline" onClick={resetTests} disabled={isRunning}>
               <RotateCcw className="h-4 w-4 mr-2" />
               Reset
             </Button>
+            <Button variant="outline" onClick={() => setEditing("new")} disabled={isRunning}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Test Case
+            </Button>
+            <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isRunning}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import JSON
+            </Button>
+            <Button variant="outline" onClick={exportCases} disabled={cases.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+            <Button variant="ghost" onClick={restoreBuiltIn} disabled={isRunning}>
+              Restore Built-in Cases
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                importCases(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
           </div>
 
-          
+          {importError && (
+            <Alert variant="destructive">
+              <AlertDescription className="text-sm">Import failed: {importError}</AlertDescription>
+            </Alert>
+          )}
+
+          {editing === "new" && <TestCaseEditor onSave={saveCase} onCancel={() => setEditing(null)} />}
+
           {summary.total > 0 && (
             <div className="flex gap-4 p-4 bg-gray-50 rounded-lg">
               <div className="text-center">
@@ -113,58 +210,142 @@ export function TestRunner() {
         </CardContent>
       </Card>
 
-      
-      {testResults.length > 0 && (
+      {cases.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Test Results</CardTitle>
-            <CardDescription>Detailed results for each test case</CardDescription>
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle>Test Cases</CardTitle>
+                <CardDescription>Expectations and, once run, the result of each case</CardDescription>
+              </div>
+              <div className="flex gap-1">
+                {(["all", "passed", "failed"] as const).map((option) => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={filter === option ? "default" : "outline"}
+                    onClick={() => setFilter(option)}
+                  >
+                    {option === "all" ? "All" : option === "passed" ? "Passed" : "Failed"}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             <ScrollArea className="h-96">
               <div className="space-y-2">
-                {testResults.map((test) => (
-                  <div
-                    key={test.id}
-                    className={`p-3 rounded-lg border ${
-                      test.passed ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="flex items-center gap-2">
-                        {test.passed ? (
-                          <CheckCircle className="h-4 w-4 text-green-600" />
-                        ) : (
-                          <XCircle className="h-4 w-4 text-red-600" />
-                        )}
-                        <span className="font-medium">Test #{test.id}</span>
-                        <Badge variant="outline" className="font-mono">
-                          {test.mpin}
-                        </Badge>
-                      </div>
-                      <Badge variant={test.passed ? "default" : "destructive"}>{test.passed ? "PASS" : "FAIL"}</Badge>
-                    </div>
+                {visible.map((test) => {
+                  const result = results[test.id]
+                  const passed = result && result.diffs.length === 0
+                  const number = cases.indexOf(test) + 1
 
-                    <div className="grid grid-cols-2 gap-4 text-sm">
-                      <div>
-                        <div className="font-medium text-gray-700">Expected:</div>
-                        <div>Strength: {test.expected.strength}</div>
-                        <div>Reasons: {test.expected.weaknessReasons?.join(", ") || "None"}</div>
-                      </div>
-                      <div>
-                        <div className="font-medium text-gray-700">Actual:</div>
-                        <div>Strength: {test.actual?.strength}</div>
-                        <div>Reasons: {test.actual?.weaknessReasons.join(", ") || "None"}</div>
+                  if (editing === test.id) {
+                    return (
+                      <TestCaseEditor key={test.id} initial={test} onSave={saveCase} onCancel={() => setEditing(null)} />
+                    )
+                  }
+
+                  return (
+                    <div
+                      key={test.id}
+                      className={`p-3 rounded-lg border ${
+                        !result ? "bg-white border-gray-200" : passed ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                          {!result ? (
+                            <Circle className="h-4 w-4 text-gray-400" />
+                          ) : passed ? (
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <XCircle className="h-4 w-4 text-red-600" />
+                          )}
+                          <span className="font-medium">{test.name ?? `Test #${number}`}</span>
+                          <Badge variant="outline" className="font-mono">
+                            {test.mpin}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {result && <Badge variant={passed ? "default" : "destructive"}>{passed ? "PASS" : "FAIL"}</Badge>}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => setEditing(test.id)}
+                            disabled={isRunning}
+                            title="Edit test case"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => deleteCase(test.id)}
+                            disabled={isRunning}
+                            title="Delete test case"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
                       </div>
-                    </div>
 
-                    {Object.keys(test.demographics).some((key) => test.demographics[key]) && (
-                      <div className="mt-2 text-xs text-gray-600">
-                        Demographics: {JSON.stringify(test.demographics)}
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <div className="font-medium text-gray-700">Expected:</div>
+                          <div>Strength: {test.expected.strength ?? "Any"}</div>
+                          {test.expected.weaknessReasons && (
+                            <div>Reasons: {test.expected.weaknessReasons.join(", ") || "None"}</div>
+                          )}
+                          {test.expected.securityScore !== undefined && (
+                            <div>Score: {describeScore(test.expected.securityScore)}</div>
+                          )}
+                          {test.expected.detectedPatterns && (
+                            <div>Patterns include: {test.expected.detectedPatterns.join(", ")}</div>
+                          )}
+                        </div>
+                        {result && (
+                          <div>
+                            <div className="font-medium text-gray-700">Actual:</div>
+                            <div>Strength: {result.actual.strength}</div>
+                            <div>Reasons: {result.actual.weaknessReasons.join(", ") || "None"}</div>
+                            <div>Score: {result.actual.securityScore}</div>
+                            <div>Patterns: {result.actual.detectedPatterns.join(", ") || "None"}</div>
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                ))}
+
+                      {result && result.diffs.length > 0 && (
+                        <table className="mt-2 w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-gray-600">
+                              <th className="font-medium">Field</th>
+                              <th className="font-medium">Expected</th>
+                              <th className="font-medium">Actual</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {result.diffs.map((diff) => (
+                              <tr key={diff.field} className="text-red-700">
+                                <td className="pr-2 font-mono">{diff.field}</td>
+                                <td className="pr-2">{diff.expected}</td>
+                                <td>{diff.actual}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+
+                      {Object.values(test.demographics).some(Boolean) && (
+                        <div className="mt-2 text-xs text-gray-600">
+                          Demographics: {JSON.stringify(test.demographics)}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </ScrollArea>
           </CardContent>
@@ -173,5 +354,3 @@ export function TestRunner() {
     </div>
   )
 }
-
-
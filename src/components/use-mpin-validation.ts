@@ -0,0 +1,49 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { MPINValidator, type Demographics, type ValidationResult } from "@/lib/mpin-validator"
+import type { InputError } from "@/lib/input-validation"
+import type { ValidationPolicyOverrides } from "@/lib/validation-policy"
+
+export interface MPINValidationOptions {
+  policy?: ValidationPolicyOverrides
+  demographics?: Demographics
+  delay?: number // ms after the last keystroke, default 300
+}
+
+export interface MPINValidationState {
+  result: ValidationResult | null // null while the PIN is empty or has input errors
+  errors: InputError[]
+  pending: boolean // the PIN changed and the debounced validation has not run yet
+}
+
+// live validation as the user types. policy and demographics are compared by value,
+// so passing fresh objects on every render does not restart the debounce
+export function useMPINValidation(mpin: string, { policy = {}, demographics = {}, delay = 300 }: MPINValidationOptions = {}) {
+  const policyKey = JSON.stringify(policy)
+  const demographicsKey = JSON.stringify(demographics)
+
+  const validator = useMemo(() => new MPINValidator(JSON.parse(policyKey)), [policyKey])
+  const [state, setState] = useState<MPINValidationState>({ result: null, errors: [], pending: false })
+
+  useEffect(() => {
+    if (!mpin) {
+      setState({ result: null, errors: [], pending: false })
+      return
+    }
+
+    setState((prev) => ({ ...prev, pending: true }))
+    const timer = setTimeout(() => {
+      const outcome = validator.validateMPINStrict(mpin, JSON.parse(demographicsKey))
+      setState(
+        outcome.ok
+          ? { result: outcome.result, errors: [], pending: false }
+          : { result: null, errors: outcome.errors, pending: false },
+      )
+    }, delay)
+
+    return () => clearTimeout(timer)
+  }, [mpin, demographicsKey, validator, delay])
+
+  return { ...state, validator }
+}
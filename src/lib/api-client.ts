@@ -0,0 +1,68 @@
+// generated by scripts/generate-openapi.ts from openapi.json - run `npm run openapi` instead of editing
+import type { BatchLine, BatchRecord, BatchSummaryLine } from "./batch-validation"
+import type { ErrorResponse, ValidationRequestBody, ValidationResponse } from "./validation-request"
+
+export interface ApiClientOptions {
+  baseUrl?: string // defaults to the current origin
+  fetch?: typeof fetch
+}
+
+// non-2xx responses, `error` is the API's error body
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: ErrorResponse["error"] | null,
+  ) {
+    super(error?.message ?? `Request failed with status ${status}`)
+    this.name = "ApiError"
+  }
+}
+
+export function createApiClient({ baseUrl = "", fetch: fetchImpl = globalThis.fetch }: ApiClientOptions = {}) {
+  const send = async (route: string, init: RequestInit): Promise<Response> => {
+    const response = await fetchImpl(baseUrl + route, init)
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as ErrorResponse | null
+      throw new ApiError(response.status, body?.error ?? null)
+    }
+    return response
+  }
+
+  return {
+    // Validate one MPIN
+    async validateMpin(body: ValidationRequestBody): Promise<ValidationResponse> {
+      const response = await send("/api/validate", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) })
+      return response.json()
+    },
+
+    // Validate many MPINs, streamed back as NDJSON
+    async *validateBatch(body: BatchRecord[]): AsyncGenerator<BatchLine | BatchSummaryLine> {
+      const response = await send("/api/validate/batch", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) })
+      yield* readLines<BatchLine | BatchSummaryLine>(response)
+    },
+
+    // This document
+    async getOpenApiDocument(): Promise<unknown> {
+      const response = await send("/api/openapi.json", { method: "GET" })
+      return response.json()
+    },
+  }
+}
+
+async function* readLines<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+    const lines = buffered.split("\n")
+    buffered = lines.pop()!
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T
+    }
+    if (done) break
+  }
+  if (buffered.trim()) yield JSON.parse(buffered) as T
+}
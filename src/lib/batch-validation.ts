@@ -0,0 +1,134 @@
+// batch validation - reads JSON array or NDJSON records and yields one result line per record.
+// a bad record only fails its own line, never the whole batch
+import type { MPINValidator, ValidationResult } from "./mpin-validator"
+import {
+  parseValidationRequest,
+  toValidationResponse,
+  type RequestError,
+  type ValidationRequestBody,
+  type ValidationResponse,
+} from "./validation-request"
+
+export type RecordId = string | number
+
+// one record of a batch request
+export interface BatchRecord extends ValidationRequestBody {
+  id: RecordId
+}
+
+export type BatchLine =
+  | { id: RecordId; result: ValidationResponse }
+  | { id: RecordId | null; line: number; error: RequestError }
+
+export interface BatchSummary {
+  total: number
+  validated: number
+  failed: number
+  byStrength: Record<ValidationResult["strength"], number>
+  byReason: Record<string, number>
+  byError: Record<string, number>
+}
+
+// last line of a batch response
+export interface BatchSummaryLine {
+  summary: BatchSummary
+}
+
+// raw records in input order, `line` is 1-based (array index + 1 for JSON arrays)
+export type RawRecord = { line: number; value: unknown } | { line: number; error: RequestError }
+
+const isRecordId = (value: unknown): value is RecordId =>
+  (typeof value === "string" && value.length > 0) || (typeof value === "number" && Number.isFinite(value))
+
+// a record is a few hundred characters, this only stops a body without newlines from filling memory
+export const MAX_LINE_LENGTH = 16_384
+
+export async function* readNdjson(stream: ReadableStream<Uint8Array>): AsyncGenerator<RawRecord> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+  let line = 0
+  let tooLong = false // the rest of the current line is dropped up to its newline
+
+  const parseLine = (text: string): RawRecord | null => {
+    line++
+    if (tooLong || text.length > MAX_LINE_LENGTH) {
+      tooLong = false
+      return { line, error: { code: "LINE_TOO_LONG", message: `Line is longer than ${MAX_LINE_LENGTH} characters` } }
+    }
+    if (!text.trim()) return null
+    try {
+      return { line, value: JSON.parse(text) }
+    } catch {
+      return { line, error: { code: "INVALID_JSON", message: "Line is not valid JSON" } }
+    }
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+
+    let newline = buffered.indexOf("\n")
+    while (newline !== -1) {
+      const record = parseLine(buffered.slice(0, newline))
+      if (record) yield record
+      buffered = buffered.slice(newline + 1)
+      newline = buffered.indexOf("\n")
+    }
+
+    if (buffered.length > MAX_LINE_LENGTH) tooLong = true
+    if (tooLong) buffered = ""
+
+    if (done) break
+  }
+
+  const last = parseLine(buffered)
+  if (last) yield last
+}
+
+export function* readJsonArray(items: unknown[]): Generator<RawRecord> {
+  for (let i = 0; i < items.length; i++) {
+    yield { line: i + 1, value: items[i] }
+  }
+}
+
+export function validateRecord(validator: MPINValidator, record: RawRecord): BatchLine {
+  if ("error" in record) return { id: null, line: record.line, error: record.error }
+
+  const value = record.value as { id?: unknown } | null
+  const id = typeof value === "object" && value !== null ? value.id : undefined
+  if (!isRecordId(id)) {
+    return {
+      id: null,
+      line: record.line,
+      error: { code: "ID_REQUIRED", message: "Each record needs a string or number id", field: "id" },
+    }
+  }
+
+  const parsed = parseValidationRequest(record.value, ["id"])
+  if (!parsed.ok) return { id, line: record.line, error: parsed.error }
+
+  const outcome = validator.validateMPINStrict(parsed.value.mpin, parsed.value.demographics)
+  if (!outcome.ok) return { id, line: record.line, error: outcome.errors[0] }
+
+  return { id, result: toValidationResponse(outcome.result, validator, parsed.value.mpin.length) }
+}
+
+export function createSummary(): BatchSummary {
+  return { total: 0, validated: 0, failed: 0, byStrength: { STRONG: 0, WEAK: 0 }, byReason: {}, byError: {} }
+}
+
+export function addToSummary(summary: BatchSummary, line: BatchLine) {
+  summary.total++
+  if (!("result" in line)) {
+    summary.failed++
+    summary.byError[line.error.code] = (summary.byError[line.error.code] ?? 0) + 1
+    return
+  }
+
+  summary.validated++
+  summary.byStrength[line.result.strength]++
+  for (const reason of line.result.weaknessReasons) {
+    summary.byReason[reason] = (summary.byReason[reason] ?? 0) + 1
+  }
+}
@@ -0,0 +1,93 @@
+// ranked common PIN dictionaries for every supported length (4 to 12 digits)
+import pins4 from "./data/common-pins-4.json"
+import pins5 from "./data/common-pins-5.json"
+import pins6 from "./data/common-pins-6.json"
+import pins8 from "./data/common-pins-8.json"
+
+export const MIN_PIN_LENGTH = 4
+export const MAX_PIN_LENGTH = 12
+
+// bundled lists, most common PIN first
+const BUNDLED_LISTS: Record<number, string[]> = {
+  4: pins4.pins,
+  5: pins5.pins,
+  6: pins6.pins,
+  8: pins8.pins,
+}
+
+// rank is the 1-based position in a list, the best rank wins when a PIN is in several lists
+export class CommonPinDictionary {
+  private ranks = new Map<number, Map<string, number>>()
+
+  constructor(includeBundled = true) {
+    if (includeBundled) {
+      for (let length = MIN_PIN_LENGTH; length <= MAX_PIN_LENGTH; length++) {
+        this.addList(BUNDLED_LISTS[length] ?? generateCommonPins(length))
+      }
+    }
+  }
+
+  // pins must be ordered most common first, lengths can be mixed
+  addList(pins: string[]) {
+    const positions = new Map<number, number>()
+
+    for (const pin of pins) {
+      const position = (positions.get(pin.length) ?? 0) + 1
+      positions.set(pin.length, position)
+
+      let ranks = this.ranks.get(pin.length)
+      if (!ranks) {
+        ranks = new Map()
+        this.ranks.set(pin.length, ranks)
+      }
+      const current = ranks.get(pin)
+      if (current === undefined || position < current) ranks.set(pin, position)
+    }
+  }
+
+  rank(mpin: string): number | null {
+    return this.ranks.get(mpin.length)?.get(mpin) ?? null
+  }
+
+  has(mpin: string): boolean {
+    return this.rank(mpin) !== null
+  }
+
+  // number of ranked PINs for a length
+  size(length: number): number {
+    return this.ranks.get(length)?.size ?? 0
+  }
+}
+
+// rank rounded up to 10, 100, 1000 ... - coarse enough that it does not point back at one PIN
+// of the public lists
+export function commonPinBucket(rank: number): number {
+  return Math.max(10, 10 ** Math.ceil(Math.log10(rank)))
+}
+
+// fallback for lengths without a bundled list - same digit, straight runs, repeated short blocks
+function generateCommonPins(length: number): string[] {
+  const pins: string[] = []
+
+  for (let d = 0; d <= 9; d++) {
+    pins.push(String(d).repeat(length))
+  }
+
+  // 1234..., 0123..., 9876... wrapping round after 9 / 0
+  for (let start = 0; start <= 9; start++) {
+    let up = ""
+    let down = ""
+    for (let i = 0; i < length; i++) {
+      up += (start + i) % 10
+      down += (start - i + 100) % 10
+    }
+    pins.push(up, down)
+  }
+
+  // 1212..., 123123..., 12341234...
+  for (const block of ["12", "21", "123", "321", "1234", "4321"]) {
+    pins.push(block.repeat(Math.ceil(length / block.length)).slice(0, length))
+  }
+
+  return pins
+}
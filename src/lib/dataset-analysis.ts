@@ -0,0 +1,100 @@
+// aggregate statistics for a PIN population, e.g. an export from a legacy system.
+// everything runs where it is called, the browser tab never uploads the PINs
+import { parseCsv, parseCsvRecords } from "./csv"
+import type { MPINValidator, ValidationResult } from "./mpin-validator"
+
+export const SCORE_BUCKETS = 10 // 0-9, 10-19, ... 90-100
+
+export interface DatasetStats {
+  total: number // PINs read, duplicates included
+  unique: number
+  analysed: number
+  skipped: number // rows the validator rejected as input, see byError
+  byError: Record<string, number>
+  byStrength: Record<ValidationResult["strength"], number>
+  scoreHistogram: number[]
+  patterns: Record<string, number>
+  reasons: Record<string, number>
+  topPins: Array<{ pin: string; count: number; strength: ValidationResult["strength"] | null }>
+}
+
+// a CSV with an mpin column, or one PIN per line. PINs stay strings so leading zeros survive
+export function readPinList(text: string): string[] {
+  const [header] = parseCsv(text.slice(0, text.search(/\r?\n|$/)))
+  if (header?.some((cell) => cell.trim() === "mpin")) {
+    return parseCsvRecords(text)
+      .map((record) => record.mpin)
+      .filter(Boolean)
+  }
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+export function countPins(pins: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const pin of pins) counts.set(pin, (counts.get(pin) ?? 0) + 1)
+  return counts
+}
+
+// each distinct PIN is validated once and counted as often as it occurs.
+// yields to the event loop between chunks so a page stays responsive on large files
+export async function analyseDataset(
+  validator: MPINValidator,
+  pins: string[],
+  { chunkSize = 2000, topCount = 20, onProgress }: { chunkSize?: number; topCount?: number; onProgress?: (done: number, total: number) => void } = {},
+): Promise<DatasetStats> {
+  const counts = countPins(pins)
+  const stats: DatasetStats = {
+    total: pins.length,
+    unique: counts.size,
+    analysed: 0,
+    skipped: 0,
+    byError: {},
+    byStrength: { STRONG: 0, WEAK: 0 },
+    scoreHistogram: Array(SCORE_BUCKETS).fill(0),
+    patterns: {},
+    reasons: {},
+    topPins: [],
+  }
+  const strengths = new Map<string, ValidationResult["strength"]>()
+
+  const entries = [...counts]
+  for (let i = 0; i < entries.length; i += chunkSize) {
+    for (const [pin, count] of entries.slice(i, i + chunkSize)) {
+      const outcome = validator.validateMPINStrict(pin)
+      if (!outcome.ok) {
+        stats.skipped += count
+        const code = outcome.errors[0].code
+        stats.byError[code] = (stats.byError[code] ?? 0) + count
+        continue
+      }
+
+      const { result } = outcome
+      strengths.set(pin, result.strength)
+      stats.analysed += count
+      stats.byStrength[result.strength] += count
+      stats.scoreHistogram[Math.min(SCORE_BUCKETS - 1, Math.floor(result.securityScore / (100 / SCORE_BUCKETS)))] += count
+      for (const pattern of result.detectedPatterns) stats.patterns[pattern] = (stats.patterns[pattern] ?? 0) + count
+      for (const reason of result.weaknessReasons) stats.reasons[reason] = (stats.reasons[reason] ?? 0) + count
+    }
+
+    onProgress?.(Math.min(i + chunkSize, entries.length), entries.length)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  stats.topPins = entries
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topCount)
+    .map(([pin, count]) => ({ pin, count, strength: strengths.get(pin) ?? null }))
+
+  return stats
+}
+
+// most frequent keys first
+export function topEntries(counts: Record<string, number>, limit = 10): Array<[string, number]> {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+}
@@ -0,0 +1,151 @@
+// date matching for demographic checks - parses the user's dates, builds every
+// realistic way of typing them as digits and finds them anywhere in a PIN
+
+export interface ParsedDate {
+  year: number
+  month: number
+  day: number
+}
+
+export interface DateEncoding {
+  format: string // e.g. "DDMM", "YYYY", "DMYY"
+  value: string
+}
+
+export interface DateMatch extends DateEncoding {
+  start: number // index of the first matched digit in the PIN
+  end: number // exclusive
+}
+
+// shortest encoding worth matching, 2-3 digit fragments match too many PINs by chance
+const MIN_ENCODING_LENGTH = 4
+
+// accepts YYYY-MM-DD (ISO), DD/MM/YYYY and MM-DD-YYYY. dots work like slashes.
+// null for anything else, including dates that do not exist (2023-02-30)
+export function parseDate(input: string): ParsedDate | null {
+  const date = readDateFields(input)
+  return date && isRealDate(date) ? date : null
+}
+
+// the year, month and day fields as written, without checking the date exists
+export function readDateFields(input: string): ParsedDate | null {
+  const value = input.trim()
+  let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(value)
+  if (match) return toDate(match[1], match[2], match[3])
+
+  match = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(value)
+  if (match) return toDate(match[3], match[2], match[1])
+
+  match = /^(\d{1,2})-(\d{1,2})-(\d{4})$/.exec(value)
+  if (match) return toDate(match[3], match[1], match[2])
+
+  return null
+}
+
+function toDate(year: string, month: string, day: string): ParsedDate {
+  return { year: Number(year), month: Number(month), day: Number(day) }
+}
+
+export function isRealDate({ year, month, day }: ParsedDate): boolean {
+  if (month < 1 || month > 12 || day < 1) return false
+  // day 0 of the next month is the last day of this one
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return day <= daysInMonth
+}
+
+// zero-padded formats, single-digit day/month variants are derived from these
+const BASE_FORMATS = [
+  ["DD", "MM"],
+  ["MM", "DD"],
+  ["YYYY"],
+  ["YY", "MM"],
+  ["MM", "YY"],
+  ["YY", "DD"],
+  ["DD", "YY"],
+  ["DD", "MM", "YY"],
+  ["MM", "DD", "YY"],
+  ["YY", "MM", "DD"],
+  ["YY", "DD", "MM"],
+  ["DD", "MM", "YYYY"],
+  ["MM", "DD", "YYYY"],
+  ["YYYY", "MM", "DD"],
+  ["YYYY", "DD", "MM"],
+  ["YYYY", "MM"],
+  ["MM", "YYYY"],
+  ["YYYY", "DD"],
+  ["DD", "YYYY"],
+]
+
+const SHORT_FORMS: Record<string, string> = { DD: "D", MM: "M" }
+
+// DD -> D and MM -> M in every combination
+function withSingleDigitForms(format: string[]): string[][] {
+  return format.reduce<string[][]>(
+    (variants, token) =>
+      variants.flatMap((variant) =>
+        SHORT_FORMS[token] ? [[...variant, token], [...variant, SHORT_FORMS[token]]] : [[...variant, token]],
+      ),
+    [[]],
+  )
+}
+
+function renderToken(token: string, date: ParsedDate): string {
+  switch (token) {
+    case "YYYY":
+      return String(date.year).padStart(4, "0")
+    case "YY":
+      return String(date.year % 100).padStart(2, "0")
+    case "MM":
+      return String(date.month).padStart(2, "0")
+    case "M":
+      return String(date.month)
+    case "DD":
+      return String(date.day).padStart(2, "0")
+    default:
+      return String(date.day)
+  }
+}
+
+export function dateEncodings(date: ParsedDate): DateEncoding[] {
+  const encodings: DateEncoding[] = []
+  const seen = new Set<string>()
+
+  for (const format of BASE_FORMATS.flatMap(withSingleDigitForms)) {
+    const value = format.map((token) => renderToken(token, date)).join("")
+    // D and DD render the same for days >= 10, keep the first (padded) name
+    if (value.length < MIN_ENCODING_LENGTH || seen.has(value)) continue
+    seen.add(value)
+    encodings.push({ format: format.join(""), value })
+  }
+
+  return encodings
+}
+
+// a user's dates are checked against many PINs, so encodings are built once per date string
+const encodingCache = new Map<string, DateEncoding[] | null>()
+const MAX_CACHED_DATES = 1000
+
+// longest encoding first, so "15021990" is reported over "1502"
+function sortedEncodings(date: string): DateEncoding[] | null {
+  let encodings = encodingCache.get(date)
+  if (encodings === undefined) {
+    const parsed = parseDate(date)
+    encodings = parsed && dateEncodings(parsed).sort((a, b) => b.value.length - a.value.length)
+    if (encodingCache.size >= MAX_CACHED_DATES) encodingCache.clear()
+    encodingCache.set(date, encodings)
+  }
+  return encodings
+}
+
+export function findDateMatch(mpin: string, date: string): DateMatch | null {
+  const encodings = sortedEncodings(date)
+  if (!encodings) return null
+
+  for (const encoding of encodings) {
+    const start = mpin.indexOf(encoding.value)
+    if (start !== -1) {
+      return { ...encoding, start, end: start + encoding.value.length }
+    }
+  }
+  return null
+}
@@ -0,0 +1,158 @@
+// golden-file snapshots of validator decisions over whole PIN spaces. a rule or weight change is
+// diffed against the committed file so the review shows every PIN whose decision flips
+import type { Demographics, MPINValidator, ValidationResult } from "./mpin-validator"
+
+export const GOLDEN_LENGTHS = [4, 6]
+
+// fixed demographic set, kept small so the file stays reviewable
+export const GOLDEN_PROFILES: Array<{ name: string; demographics: Demographics }> = [
+  { name: "none", demographics: {} },
+  {
+    name: "dates",
+    demographics: { dob: "1990-02-15", spouseDob: "1985-03-12", anniversary: "2010-06-14" },
+  },
+  {
+    name: "identifiers",
+    demographics: {
+      phoneNumber: "+91 98765 43210",
+      vehicleNumber: "MH12 AB 4821",
+      postalCode: "560034",
+      houseNumber: "27",
+      accountNumber: "XXXX XXXX 6093",
+    },
+  },
+]
+
+// what a reviewer cares about: strength and blocking reasons, not the exact score
+export interface Decision {
+  strength: ValidationResult["strength"]
+  reasons: string[]
+}
+
+export interface GoldenSpace {
+  profile: string
+  length: number
+  runs: number[] // [decision index, run length, ...] over PINs in numeric order
+}
+
+export interface GoldenFile {
+  version: 1
+  decisions: string[] // "STRONG" or "WEAK:REASON,REASON"
+  spaces: GoldenSpace[]
+}
+
+export interface DecisionChange {
+  profile: string
+  pin: string
+  before: Decision
+  after: Decision
+}
+
+const encodeDecision = ({ strength, weaknessReasons }: ValidationResult) =>
+  weaknessReasons.length > 0 ? `${strength}:${[...weaknessReasons].sort().join(",")}` : strength
+
+export function decodeDecision(encoded: string): Decision {
+  const [strength, reasons = ""] = encoded.split(":")
+  return { strength: strength as Decision["strength"], reasons: reasons ? reasons.split(",") : [] }
+}
+
+export function createGoldenSnapshot(
+  validator: MPINValidator,
+  { onProgress }: { onProgress?: (space: string, done: number, total: number) => void } = {},
+): GoldenFile {
+  const decisions: string[] = []
+  const indexes = new Map<string, number>()
+  const spaces: GoldenSpace[] = []
+
+  for (const { name, demographics } of GOLDEN_PROFILES) {
+    for (const length of GOLDEN_LENGTHS) {
+      const total = 10 ** length
+      const progressStep = Math.max(1, Math.floor(total / 100))
+      const runs: number[] = []
+
+      for (let n = 0; n < total; n++) {
+        const encoded = encodeDecision(validator.validateMPIN(String(n).padStart(length, "0"), demographics))
+        let index = indexes.get(encoded)
+        if (index === undefined) {
+          index = decisions.push(encoded) - 1
+          indexes.set(encoded, index)
+        }
+
+        if (runs.length > 0 && runs[runs.length - 2] === index) runs[runs.length - 1]++
+        else runs.push(index, 1)
+
+        if ((n + 1) % progressStep === 0) onProgress?.(`${name}/${length}`, n + 1, total)
+      }
+
+      spaces.push({ profile: name, length, runs })
+    }
+  }
+
+  return { version: 1, decisions, spaces }
+}
+
+export function parseGoldenFile(text: string): GoldenFile {
+  const data = JSON.parse(text)
+  if (data?.version !== 1) throw new Error("unsupported golden file version")
+  if (!Array.isArray(data.decisions) || !Array.isArray(data.spaces)) throw new Error("expected decisions and spaces")
+
+  for (const space of data.spaces) {
+    if (typeof space?.profile !== "string" || !Number.isInteger(space.length) || !Array.isArray(space.runs)) {
+      throw new Error("malformed space entry")
+    }
+    let covered = 0
+    for (let i = 0; i < space.runs.length; i += 2) {
+      if (data.decisions[space.runs[i]] === undefined) throw new Error(`${space.profile}/${space.length}: unknown decision`)
+      covered += space.runs[i + 1]
+    }
+    if (covered !== 10 ** space.length) throw new Error(`${space.profile}/${space.length}: runs cover ${covered} PINs`)
+  }
+  return data
+}
+
+export const serializeGoldenFile = (file: GoldenFile) =>
+  // one space per line keeps git diffs of the file readable
+  [
+    "{",
+    `  "version": ${file.version},`,
+    `  "decisions": ${JSON.stringify(file.decisions)},`,
+    '  "spaces": [',
+    file.spaces.map((space) => `    ${JSON.stringify(space)}`).join(",\n"),
+    "  ]",
+    "}",
+  ].join("\n") + "\n"
+
+function* expand(file: GoldenFile, space: GoldenSpace) {
+  for (let i = 0; i < space.runs.length; i += 2) {
+    const encoded = file.decisions[space.runs[i]]
+    for (let n = 0; n < space.runs[i + 1]; n++) yield encoded
+  }
+}
+
+// every PIN whose strength or reasons differ, in space then PIN order
+export function diffGolden(before: GoldenFile, after: GoldenFile): DecisionChange[] {
+  const changes: DecisionChange[] = []
+  const key = (space: GoldenSpace) => `${space.profile}/${space.length}`
+  const missing = [...before.spaces, ...after.spaces]
+    .map(key)
+    .filter((name) => !before.spaces.some((s) => key(s) === name) || !after.spaces.some((s) => key(s) === name))
+  if (missing.length > 0) throw new Error(`spaces differ between snapshots: ${[...new Set(missing)].join(", ")}`)
+
+  for (const space of after.spaces) {
+    const old = expand(before, before.spaces.find((s) => key(s) === key(space))!)
+    let n = 0
+    for (const encoded of expand(after, space)) {
+      const previous = old.next().value!
+      if (previous !== encoded) {
+        changes.push({
+          profile: space.profile,
+          pin: String(n).padStart(space.length, "0"),
+          before: decodeDecision(previous),
+          after: decodeDecision(encoded),
+        })
+      }
+      n++
+    }
+  }
+  return changes
+}
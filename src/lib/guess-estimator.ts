@@ -0,0 +1,120 @@
+// estimates how many guesses an attacker needs for a PIN and how long that takes
+// under different attack models. the attacker is assumed to try the common PIN
+// list in rank order, then targeted date guesses, then pattern families, then brute force
+
+export type AttackModel =
+  | { id: string; label: string; kind: "lockout"; maxAttempts: number }
+  | { id: string; label: string; kind: "throttled" | "offline"; guessesPerSecond: number }
+
+export interface AttackEstimate {
+  id: string
+  label: string
+  kind: AttackModel["kind"]
+  compromised: boolean // lockout: found before the account locks, otherwise always true
+  seconds: number | null // null for lockout models
+}
+
+export type GuessBasis = "common list" | "demographic" | "pattern" | "brute force"
+
+export interface GuessEstimate {
+  guesses: number
+  basis: GuessBasis
+  attacks: AttackEstimate[]
+}
+
+export const DEFAULT_ATTACK_MODELS: AttackModel[] = [
+  { id: "lockout", label: "Lockout after 3 tries", kind: "lockout", maxAttempts: 3 },
+  { id: "throttled", label: "Throttled online attack (10 guesses/min)", kind: "throttled", guessesPerSecond: 10 / 60 },
+  { id: "offline", label: "Offline attack on a stolen hash", kind: "offline", guessesPerSecond: 1e9 },
+]
+
+// an attacker who knows the user's dates tries their usual encodings first
+// (DDMM, MMDD, YYMM, ... for each known date)
+const DEMOGRAPHIC_GUESSES = 50
+
+// rough number of PINs of a given length in each pattern family
+function patternFamilySize(code: string, length: number): number {
+  switch (code) {
+    case "REPEATED_DIGITS":
+      return 10 ** Math.ceil(length / 2) // 1122, 123123 - half the digits are free
+    case "SEQUENTIAL_PATTERN":
+      return 20 // one ascending and one descending run per start digit
+    case "KEYBOARD_PATTERN":
+      return 10 * 5 ** (length - 1) // about 5 neighbouring keys per step
+    case "ARITHMETIC_PROGRESSION":
+      return 40 // start digit and step, few stay within 0-9
+    case "WRAP_AROUND_SEQUENCE":
+      return 20
+    case "PALINDROME":
+      return 10 ** Math.ceil(length / 2) // first half decides the rest
+    case "ALTERNATING_PAIRS":
+      return 90
+    case "PARTIAL_RUN":
+      return 20 * length * 10 ** Math.floor(length / 4) // run start and direction, plus the free digits
+    default:
+      return 10 ** length
+  }
+}
+
+export interface GuessInput {
+  length: number
+  commonPinRank: number | null
+  dictionarySize: number // ranked PINs of this length, tried before anything else
+  patterns: string[] // finding codes, unknown (custom) ones count as brute force
+  demographicHits: number
+}
+
+export function estimateGuesses(input: GuessInput, models: AttackModel[] = DEFAULT_ATTACK_MODELS): GuessEstimate {
+  const { length, commonPinRank, dictionarySize, patterns, demographicHits } = input
+  const space = 10 ** length
+
+  let guesses: number
+  let basis: GuessBasis
+
+  if (commonPinRank !== null) {
+    guesses = commonPinRank
+    basis = "common list"
+  } else if (demographicHits > 0) {
+    guesses = dictionarySize + DEMOGRAPHIC_GUESSES / 2
+    basis = "demographic"
+  } else if (patterns.length > 0) {
+    // the smallest family the PIN belongs to, searched halfway on average
+    const family = Math.min(...patterns.map((code) => patternFamilySize(code, length)))
+    guesses = dictionarySize + DEMOGRAPHIC_GUESSES + family / 2
+    basis = "pattern"
+  } else {
+    guesses = dictionarySize + DEMOGRAPHIC_GUESSES + space / 2
+    basis = "brute force"
+  }
+
+  guesses = Math.max(1, Math.min(Math.round(guesses), space))
+
+  return {
+    guesses,
+    basis,
+    attacks: models.map((model) =>
+      model.kind === "lockout"
+        ? { id: model.id, label: model.label, kind: model.kind, compromised: guesses <= model.maxAttempts, seconds: null }
+        : { id: model.id, label: model.label, kind: model.kind, compromised: true, seconds: guesses / model.guessesPerSecond },
+    ),
+  }
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 1) return "less than a second"
+
+  const units: Array<[string, number]> = [
+    ["year", 365 * 24 * 3600],
+    ["day", 24 * 3600],
+    ["hour", 3600],
+    ["minute", 60],
+    ["second", 1],
+  ]
+  for (const [unit, size] of units) {
+    if (seconds >= size) {
+      const value = Math.round(seconds / size)
+      return `${value} ${unit}${value === 1 ? "" : "s"}`
+    }
+  }
+  return "less than a second"
+}
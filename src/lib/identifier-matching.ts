@@ -0,0 +1,53 @@
+// matching for non-date identifiers - phone, vehicle registration, postal code etc.
+// a PIN reuses an identifier when it shares a run of digits with it
+
+export interface IdentifierMatch {
+  format: string // where in the identifier the digits came from, e.g. "last 4 digits"
+  start: number // index of the first matched digit in the PIN
+  end: number // exclusive
+}
+
+// runs shorter than this (a house number like "7") match too many PINs by chance
+const MIN_RUN_LENGTH = 3
+// longer runs only need to share this many digits with the PIN
+const MIN_SHARED_DIGITS = 4
+
+// "MH 12 AB 3456" -> ["12", "3456", "123456"], "+91 98765-43210" -> [..., "919876543210"]
+function digitRuns(identifier: string): string[] {
+  const runs = identifier.match(/\d+/g) ?? []
+  const joined = runs.join("")
+  return runs.length > 1 ? [...runs, joined] : runs
+}
+
+export function findIdentifierMatch(mpin: string, identifier: string): IdentifierMatch | null {
+  let best: (IdentifierMatch & { length: number }) | null = null
+
+  for (const run of digitRuns(identifier)) {
+    if (run.length < MIN_RUN_LENGTH) continue
+    const minShared = Math.min(MIN_SHARED_DIGITS, run.length)
+
+    // longest stretch of the PIN that also appears in the run
+    for (let start = 0; start < mpin.length; start++) {
+      for (let end = mpin.length; end - start >= minShared; end--) {
+        if (best && end - start <= best.length) break
+
+        const digits = mpin.slice(start, end)
+        const at = run.indexOf(digits)
+        if (at === -1) continue
+
+        best = { format: describePosition(at, digits.length, run.length), start, end, length: digits.length }
+        break
+      }
+    }
+  }
+
+  if (!best) return null
+  return { format: best.format, start: best.start, end: best.end }
+}
+
+function describePosition(at: number, length: number, runLength: number): string {
+  if (length === runLength) return "all digits"
+  if (at + length === runLength) return `last ${length} digits`
+  if (at === 0) return `first ${length} digits`
+  return `${length} digits`
+}
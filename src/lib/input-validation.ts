@@ -0,0 +1,81 @@
+// strict input checks run before scoring - a PIN or date that fails here gets typed errors, not a score
+import { isRealDate, readDateFields } from "./date-matching"
+import type { Demographics } from "./mpin-validator"
+
+export type InputErrorCode =
+  | "NON_DIGIT_CHARACTERS"
+  | "UNSUPPORTED_LENGTH"
+  | "UNPARSEABLE_DATE"
+  | "IMPOSSIBLE_DATE"
+  | "FUTURE_DATE"
+
+export interface InputError {
+  code: InputErrorCode
+  field: keyof Demographics | "mpin"
+  message: string
+}
+
+const DATE_FIELDS: Array<keyof Demographics> = ["dob", "spouseDob", "anniversary"]
+
+const DATE_LABELS: Record<string, string> = {
+  dob: "Date of birth",
+  spouseDob: "Spouse date of birth",
+  anniversary: "Anniversary",
+}
+
+export function checkInput(
+  mpin: string,
+  demographics: Demographics,
+  allowedLengths: number[],
+  today: Date = new Date(),
+): InputError[] {
+  const errors: InputError[] = []
+
+  // messages describe the problem without repeating the PIN
+  if (!/^\d*$/.test(mpin)) {
+    errors.push({ code: "NON_DIGIT_CHARACTERS", field: "mpin", message: "PIN must contain digits only" })
+  }
+  if (!allowedLengths.includes(mpin.length)) {
+    errors.push({
+      code: "UNSUPPORTED_LENGTH",
+      field: "mpin",
+      message: `PIN must be ${formatLengths(allowedLengths)} digits long`,
+    })
+  }
+
+  const todayKey = today.getFullYear() * 10000 + (today.getMonth() + 1) * 100 + today.getDate()
+
+  for (const field of DATE_FIELDS) {
+    const value = demographics[field]
+    if (!value) continue
+    const label = DATE_LABELS[field]
+
+    const date = readDateFields(value)
+    if (!date) {
+      errors.push({
+        code: "UNPARSEABLE_DATE",
+        field,
+        message: `${label} must be written as YYYY-MM-DD, DD/MM/YYYY or MM-DD-YYYY`,
+      })
+    } else if (!isRealDate(date)) {
+      errors.push({ code: "IMPOSSIBLE_DATE", field, message: `${label} is not a real calendar date` })
+    } else if (date.year * 10000 + date.month * 100 + date.day > todayKey) {
+      errors.push({ code: "FUTURE_DATE", field, message: `${label} cannot be in the future` })
+    }
+  }
+
+  return errors
+}
+
+// [4, 5, 6, 8] -> "4 to 6 or 8"
+function formatLengths(lengths: number[]): string {
+  const sorted = [...lengths].sort((a, b) => a - b)
+  const ranges: string[] = []
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++
+    ranges.push(j > i ? `${sorted[i]} to ${sorted[j]}` : String(sorted[i]))
+    i = j
+  }
+  return ranges.length > 1 ? `${ranges.slice(0, -1).join(", ")} or ${ranges[ranges.length - 1]}` : ranges[0] ?? "a supported number of"
+}
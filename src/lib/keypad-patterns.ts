@@ -0,0 +1,111 @@
+// keypad geometry - detects shapes a PIN traces on the keypad instead of matching literal strings
+
+export type KeypadLayout = "phone" | "numpad"
+
+export type KeypadShape =
+  | "straight line"
+  | "reversed line"
+  | "diagonal"
+  | "corner"
+  | "zig-zag"
+  | "multiple lines"
+  | "adjacent-key walk"
+
+// shapes as obvious as a +1/-1 run, these take the keypadLine weight
+export const KEYPAD_LINE_SHAPES: KeypadShape[] = ["straight line", "reversed line", "diagonal", "corner", "multiple lines"]
+
+// rows top to bottom, a space is an empty cell
+const LAYOUTS: Record<KeypadLayout, string[]> = {
+  phone: ["123", "456", "789", " 0 "],
+  numpad: ["789", "456", "123", "0  "], // 0 sits under 1 on a computer numpad
+}
+
+type Position = [row: number, col: number]
+
+const positionsCache = new Map<KeypadLayout, Map<string, Position>>()
+
+function getPositions(layout: KeypadLayout): Map<string, Position> {
+  let positions = positionsCache.get(layout)
+  if (!positions) {
+    positions = new Map()
+    LAYOUTS[layout].forEach((row, r) => {
+      row.split("").forEach((key, c) => {
+        if (key !== " ") positions!.set(key, [r, c])
+      })
+    })
+    positionsCache.set(layout, positions)
+  }
+  return positions
+}
+
+// move from one key to the next
+type Step = [dr: number, dc: number]
+
+const isUnit = ([dr, dc]: Step) => Math.max(Math.abs(dr), Math.abs(dc)) === 1
+const sameStep = (a: Step, b: Step) => a[0] === b[0] && a[1] === b[1]
+
+function lineShape([dr, dc]: Step): KeypadShape {
+  if (dr !== 0 && dc !== 0) return "diagonal"
+  // reading order is left to right, top to bottom
+  return dr > 0 || dc > 0 ? "straight line" : "reversed line"
+}
+
+export function detectKeypadShape(mpin: string, layout: KeypadLayout = "phone"): KeypadShape | null {
+  const positions = getPositions(layout)
+  const keys = mpin.split("").map((digit) => positions.get(digit))
+  if (keys.length < 3 || keys.some((key) => !key)) return null
+
+  const path = keys as Position[]
+  const steps: Step[] = []
+  for (let i = 1; i < path.length; i++) {
+    steps.push([path[i][0] - path[i - 1][0], path[i][1] - path[i - 1][1]])
+  }
+
+  // pressing the same key twice is repetition, not a shape
+  if (steps.some(([dr, dc]) => dr === 0 && dc === 0)) return null
+
+  const allUnit = steps.every(isUnit)
+  if (allUnit) {
+    let runs = 1
+    for (let i = 1; i < steps.length; i++) {
+      if (!sameStep(steps[i], steps[i - 1])) runs++
+    }
+    if (runs === 1) return lineShape(steps[0])
+    if (runs === 2) return "corner" // 1236, 7896, 3698
+    if (steps.every((step, i) => sameStep(step, steps[i % 2]))) return "zig-zag"
+  }
+
+  const segments = splitIntoLines(path, steps)
+  if (segments) {
+    return segments > 1 ? "multiple lines" : lineShape(steps[0])
+  }
+
+  return allUnit && isWalk(mpin, steps) ? "adjacent-key walk" : null
+}
+
+// squares and snakes, 1254 or 3256 - one key across or down at a time and no key pressed twice.
+// allowing diagonal steps and revisits matched about one PIN in eleven, too many to mean anything
+function isWalk(mpin: string, steps: Step[]): boolean {
+  return new Set(mpin).size === mpin.length && steps.every(([dr, dc]) => dr === 0 || dc === 0)
+}
+
+// 147258, 159357 - lines of 3+ keys with a jump between them, optionally
+// followed by one stray key (7410, 9630). returns the number of lines
+function splitIntoLines(path: Position[], steps: Step[]): number | null {
+  let lines = 0
+  let start = 0
+
+  while (start < path.length) {
+    if (start === path.length - 1) return lines > 0 ? lines : null
+
+    let end = start + 1
+    if (!isUnit(steps[start])) return null
+    while (end < steps.length && sameStep(steps[end], steps[start])) end++
+    if (end - start + 1 < 3) return null
+
+    lines++
+    start = end + 1
+  }
+
+  return lines
+}
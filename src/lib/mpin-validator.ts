@@ -1,263 +1,287 @@
+import {
+  resolvePolicy,
+  type FindingCode,
+  type FindingSeverity,
+  type ValidationPolicy,
+  type ValidationPolicyOverrides,
+} from "./validation-policy"
+import { CommonPinDictionary } from "./common-pins"
+import { estimateGuesses, type GuessEstimate } from "./guess-estimator"
+import { randomDigits, randomIndexes } from "./secure-random"
+import { checkInput, type InputError } from "./input-validation"
+import { findPinRelationship, matchesHashedPin, type HashedPin, type PinSimilarity } from "./pin-similarity"
+import type { TestCase } from "./test-cases"
+import { commonPinPenalty, createBuiltInRules, RuleRegistry, type RuleInfo, type ValidationRule } from "./rules"
+import { MAX_LOOKUP_LENGTH, PinLookup } from "./pin-lookup"
+
 export interface Demographics {
     // initially optional 
   dob?: string 
   spouseDob?: string
   anniversary?: string
+  // identifiers, any non-digit characters are ignored
+  phoneNumber?: string
+  vehicleNumber?: string
+  postalCode?: string
+  houseNumber?: string
+  accountNumber?: string // account or card number, or just its last digits
 }
 
+export const DEMOGRAPHIC_FIELDS: Array<keyof Demographics> = [
+  "dob",
+  "spouseDob",
+  "anniversary",
+  "phoneNumber",
+  "vehicleNumber",
+  "postalCode",
+  "houseNumber",
+  "accountNumber",
+]
+
 export interface ValidationResult {
   strength: "WEAK" | "STRONG"
-  weaknessReasons: string[]
+  findings: Finding[]
   securityScore: number
-  detectedPatterns: string[]
+  commonPinRank: number | null // 1 = most common PIN of its length
+  guessEstimate: GuessEstimate
+  // derived from findings, kept for existing callers
+  weaknessReasons: string[] // codes of blocking findings
+  detectedPatterns: string[] // labels of common-list and pattern findings
 }
 
+// result-union returned by validateMPINStrict
+export type ValidationOutcome = { ok: true; result: ValidationResult } | { ok: false; errors: InputError[] }
+
+export interface Finding {
+  code: FindingCode | (string & {}) // custom rules use their own ids
+  severity: FindingSeverity
+  points: number // taken off the security score
+  span: { start: number; end: number } | null // matched digits in the PIN, end exclusive
+  field: keyof Demographics | null // demographic field that caused it
+  detail: string | null // keypad shape, date encoding etc.
+  messageKey: string
+}
 
-{/*random 4 and 6 digit common pins */}
-export class MPINValidator {
-  private commonPins4Digit = new Set([
-    
-    "1234",
-    "2345",
-    "1111",
-    "0000",
-    "1212",
-    "7777",
-    "1004",
-    "2000",
-    "4444",
-    "2222",
-    "6969",
-    "9999",
-    "3333",
-    "5555",
-    "6666",
-    "8888",
-    "4321",
-    "2580",
-    "1122",
-    "1313",
-    "8520",
-    "2001",
-    "1010",
-    "1001",
-    "0123",
-    "9876",
-    "1357",
-    "2468",
-    "1478",
-    "1593",
-    "2846",
-  ])
-
-  
-  private commonPins6Digit = new Set([
-    "123456",
-    "111111",
-    "000000",
-    "121212",
-    "777777",
-    "100400",
-    "200000",
-    "444444",
-    "222222",
-    "696969",
-    "999999",
-    "333333",
-    "555555",
-    "666666",
-    "888888",
-    "432100",
-    "258000",
-    "112200",
-    "131300",
-    "852000",
-    "200100",
-    "101000",
-    "100100",
-    "012345",
-    "135790",
-    "246810",
-    "147852",
-    "159357",
-    "284691",
-    "123123",
-    "456456",
-    "789789",
-    "147147",
-    "258258",
-    "369369",
-    "654321",
-    "987654",
-    "112233",
-    "445566",
-  ])
-
-  validateMPIN(mpin: string, demographics: Demographics = {}): ValidationResult {
-    const weaknessReasons: string[] = []
-    let securityScore = 100 
-    const detectedPatterns: string[] = []
-
+export interface SuggestionOptions {
+  closeTo?: string // the user's own PIN
+  keep?: number // digits of closeTo to keep, default 2
+}
 
-    if (this.isCommonlyUsed(mpin)) {
-      weaknessReasons.push("COMMONLY_USED")
-      securityScore -= 40
-      detectedPatterns.push("Common PIN")
-    }
+// findings that are no pattern family to guess from. the estimate is for an attacker who does not
+// know the user's previous PINs, so reusing one leaves it as it was
+const NOT_PATTERNS = new Set<string>(["COMMONLY_USED", "UNSUPPORTED_LENGTH", "REUSED_PREVIOUS_PIN", "SIMILAR_TO_PREVIOUS_PIN"])
 
+// strong PINs are the large majority, this only stops a policy nothing can pass from looping forever
+const MAX_ATTEMPTS_PER_SUGGESTION = 200
 
-    const patterns = this.detectPatterns(mpin)
-    if (patterns.length > 0) {
-      securityScore -= patterns.length * 15
-      detectedPatterns.push(...patterns)
+export class MPINValidator {
+  private policy: ValidationPolicy
+  private commonPins = new CommonPinDictionary()
+  private rules = new RuleRegistry()
+  private lookup: PinLookup | null = null
+
+  constructor(policy: ValidationPolicyOverrides = {}) {
+    this.policy = resolvePolicy(policy)
+    for (const { rule, enabled } of createBuiltInRules(this.policy, this.commonPins)) {
+      this.rules.register(rule)
+      this.rules.setEnabled(rule.id, enabled)
     }
+  }
 
-    const demographicIssues = this.checkDemographics(mpin, demographics)
-    weaknessReasons.push(...demographicIssues)
-    securityScore -= demographicIssues.length * 25
+  // extra ranked list (most common first), e.g. PINs seen in our own breach data
+  addCommonPinList(pins: string[]) {
+    this.commonPins.addList(pins)
+    this.lookup = null // common-list matches in the tables are stale now
+  }
 
-    
-    securityScore = Math.max(0, securityScore)
+  // bulk mode: one pass builds tables of every PIN-only rule result for these lengths, after that
+  // only the demographic and custom rules run per call. rules registered or enabled later are
+  // run directly, a new common list drops the tables
+  precompute(lengths = this.policy.allowedLengths.filter((length) => length <= MAX_LOOKUP_LENGTH)) {
+    this.lookup = new PinLookup(this.rules.active(), lengths)
+  }
 
-    // classification of strong or weak
-    const strength = weaknessReasons.length === 0 && securityScore >= 60 ? "STRONG" : "WEAK"
+  // lengths served from precomputed tables, empty until precompute() runs
+  getPrecomputedLengths(): number[] {
+    return this.lookup?.lengths ?? []
+  }
 
-    return {
-      strength,
-      weaknessReasons,
-      securityScore,
-      detectedPatterns,
-    }
+  getPolicy(): ValidationPolicy {
+    return this.policy
   }
 
-  private isCommonlyUsed(mpin: string): boolean {
-    if (mpin.length === 4) {
-      return this.commonPins4Digit.has(mpin)
-    } else if (mpin.length === 6) {
-      return this.commonPins6Digit.has(mpin)
-    }
-    return false
+  // points the COMMONLY_USED rule takes off for this rank, the API scores a rank's bucket with it
+  getCommonPinPenalty(rank: number, length: number): number {
+    return commonPinPenalty(rank, this.commonPins.size(length), this.policy.weights)
   }
 
-  // pattern recognition - repeated patterns , keyboard patters, any sequence(odd or even number)
-  private detectPatterns(mpin: string): string[] {
-    const patterns: string[] = []
+  // custom checks (branch codes, promo numbers ...) run after the built-in ones unless `before` names a rule
+  registerRule(rule: ValidationRule, options: { before?: string } = {}) {
+    this.rules.register(rule, options)
+  }
 
+  unregisterRule(id: string) {
+    this.rules.unregister(id)
+  }
 
-    if (this.hasRepeatedDigits(mpin)) { 
-      patterns.push("Repeated digits")
-    }
+  setRuleEnabled(id: string, enabled: boolean) {
+    this.rules.setEnabled(id, enabled)
+  }
 
-    if (this.hasSequentialPattern(mpin)) {
-      patterns.push("Sequential pattern")
-    }
+  // listed ids run first, in that order
+  reorderRules(ids: string[]) {
+    this.rules.reorder(ids)
+  }
 
-    if (this.hasKeyboardPattern(mpin)) {
-      patterns.push("Keyboard pattern")
-    }
+  listRules(): RuleInfo[] {
+    return this.rules.list()
+  }
 
-    return patterns
+  // like validateMPIN, but input that cannot be scored meaningfully (non-digits, unsupported
+  // length, bad or future dates) comes back as typed errors instead of a score
+  validateMPINStrict(mpin: string, demographics: Demographics = {}, today: Date = new Date()): ValidationOutcome {
+    const errors = checkInput(mpin, demographics, this.policy.allowedLengths, today)
+    if (errors.length > 0) return { ok: false, errors }
+    return { ok: true, result: this.validateMPIN(mpin, demographics) }
   }
 
-  private hasRepeatedDigits(mpin: string): boolean { // logic 
-    
-    if (new Set(mpin).size === 1) return true
-
-    
-    if (mpin.length === 4) {
-      return mpin[0] === mpin[1] && mpin[2] === mpin[3] // digits at all index are same
-    } else if (mpin.length === 6) {
-     
-      return (
-        (mpin[0] === mpin[1] && mpin[2] === mpin[3] && mpin[4] === mpin[5]) || // 112233
-        mpin.slice(0, 3) === mpin.slice(3, 6) 
-      )
+  validateMPIN(mpin: string, demographics: Demographics = {}): ValidationResult {
+    const findings: Finding[] = []
+    const detectedPatterns: string[] = []
+
+    const context = { mpin, demographics }
+
+    for (const rule of this.rules.active()) {
+      for (const match of this.lookup?.matches(mpin, rule) ?? rule.detect(context)) {
+        const finding: Finding = {
+          code: rule.id,
+          severity: rule.blocking ? "blocking" : "advisory",
+          points: match.points ?? rule.defaultWeight,
+          span: match.span === undefined ? { start: 0, end: mpin.length } : match.span,
+          field: match.field ?? null,
+          detail: match.detail ?? null,
+          messageKey: `finding.${rule.id}`,
+        }
+        findings.push(finding)
+
+        // the common list rank is reported separately, not in the label
+        if (rule.label) {
+          const showDetail = finding.detail && rule.id !== "COMMONLY_USED"
+          detectedPatterns.push(showDetail ? `${rule.label} (${finding.detail})` : rule.label)
+        }
+      }
     }
 
-    return false
+    return this.summarize(mpin, findings, detectedPatterns)
   }
 
-  private hasSequentialPattern(mpin: string): boolean { // logic 
-    const digits = mpin.split("").map(Number)
-
-    
-    let isAscending = true
-    let isDescending = true
-
-    for (let i = 1; i < digits.length; i++) {
-      if (digits[i] !== digits[i - 1] + 1) isAscending = false 
-      if (digits[i] !== digits[i - 1] - 1) isDescending = false
+  // validateMPINStrict plus a check that the new PIN is not a previous one or trivially derived from it.
+  // previous PINs can be plaintext or salted hashes, hashes only catch exact reuse
+  async validatePINChange(
+    newPin: string,
+    previousPins: Array<string | HashedPin>,
+    demographics: Demographics = {},
+    today: Date = new Date(),
+  ): Promise<ValidationOutcome> {
+    const outcome = this.validateMPINStrict(newPin, demographics, today)
+    if (!outcome.ok || !this.policy.enabledChecks.previousPins) return outcome
+    const { result } = outcome
+
+    const findings = [...result.findings]
+    const similarity = await this.findPreviousPin(newPin, previousPins)
+    if (similarity) {
+      const code = similarity.relationship === "same" ? "REUSED_PREVIOUS_PIN" : "SIMILAR_TO_PREVIOUS_PIN"
+      findings.push({
+        code,
+        severity: this.policy.severity[code],
+        points: this.policy.weights.previousPin,
+        span: { start: similarity.start, end: similarity.end },
+        field: null,
+        detail: similarity.relationship,
+        messageKey: `finding.${code}`,
+      })
     }
 
-    return isAscending || isDescending
+    return { ok: true, result: this.summarize(newPin, findings, result.detectedPatterns) }
   }
 
-  private hasKeyboardPattern(mpin: string): boolean {
-    const keyboardPatterns = [
-        // common patterns
-      "2580",
-      "1470",
-      "3690",
-      "1590",
-      "7410",
-      "9630", 
-      "147258",
-      "159357",
-      "258147",
-      "357159", 
-    ]
+  // exact reuse wins over a derived PIN, so 1846 -> [1847, 1846] reports the reuse
+  private async findPreviousPin(newPin: string, previousPins: Array<string | HashedPin>): Promise<PinSimilarity | null> {
+    let closest: PinSimilarity | null = null
+
+    for (const previous of previousPins) {
+      if (typeof previous === "string") {
+        const similarity = findPinRelationship(newPin, previous)
+        if (similarity?.relationship === "same") return similarity
+        closest ??= similarity
+      } else if (await matchesHashedPin(newPin, previous)) {
+        return { relationship: "same", start: 0, end: newPin.length }
+      }
+    }
 
-    return keyboardPatterns.includes(mpin)
+    return closest
   }
 
-  private checkDemographics(mpin: string, demographics: Demographics): string[] {
-    const issues: string[] = []
+  private summarize(mpin: string, findings: Finding[], detectedPatterns: string[]): ValidationResult {
+    const { thresholds } = this.policy
+    const penalty = findings.reduce((total, finding) => total + finding.points, 0)
+    const securityScore = Math.max(0, thresholds.maxScore - penalty)
+    const weaknessReasons = findings.filter((finding) => finding.severity === "blocking").map((finding) => finding.code)
 
-    if (demographics.dob && this.matchesDemographic(mpin, demographics.dob)) {
-      issues.push("DEMOGRAPHIC_DOB_SELF")
-    }
+    // classification of strong or weak
+    const strength = weaknessReasons.length === 0 && securityScore >= thresholds.strongMinScore ? "STRONG" : "WEAK"
 
-    if (demographics.spouseDob && this.matchesDemographic(mpin, demographics.spouseDob)) {
-      issues.push("DEMOGRAPHIC_DOB_SPOUSE")
-    }
+    const commonPinRank = findings.some((finding) => finding.code === "COMMONLY_USED") ? this.commonPins.rank(mpin) : null
+    const guessEstimate = estimateGuesses(
+      {
+        length: mpin.length,
+        commonPinRank,
+        dictionarySize: this.commonPins.size(mpin.length),
+        patterns: findings.filter((finding) => !finding.field && !NOT_PATTERNS.has(finding.code)).map((finding) => finding.code),
+        demographicHits: findings.filter((finding) => finding.field).length,
+      },
+      this.policy.attackModels,
+    )
 
-    if (demographics.anniversary && this.matchesDemographic(mpin, demographics.anniversary)) {
-      issues.push("DEMOGRAPHIC_ANNIVERSARY")
+    return {
+      strength,
+      findings,
+      securityScore,
+      commonPinRank,
+      guessEstimate,
+      weaknessReasons,
+      detectedPatterns,
     }
-
-    return issues
   }
 
-  // data conversion
-  private matchesDemographic(mpin: string, date: string): boolean {
-    if (!date) return false
-
-    const [year, month, day] = date.split("-")
-    const dateVariations = [
-      day + month,
-      month + day, 
-      year.slice(-2) + month, 
-      year.slice(-2) + day, 
-      month + year.slice(-2), 
-      day + year.slice(-2), 
-      day + month + year.slice(-2), 
-      month + day + year.slice(-2),
-      year.slice(-2) + month + day, 
-      year.slice(-2) + day + month, 
-    ]
-
-    return dateVariations.some((variation) => {
-      if (mpin.length === 4) {
-        return variation.slice(0, 4) === mpin || variation.slice(-4) === mpin
-      } else if (mpin.length === 6) {
-        return variation === mpin || variation.slice(0, 6) === mpin
+  // random PINs that pass the full validator for these demographics.
+  // with closeTo set, `keep` digits of that PIN stay where they are so the suggestion feels familiar
+  suggestStrongPINs(
+    length: number,
+    demographics: Demographics = {},
+    count = 3,
+    { closeTo, keep = 2 }: SuggestionOptions = {},
+  ): string[] {
+    const suggestions = new Set<string>()
+    const kept = closeTo?.length === length ? randomIndexes(length, Math.min(keep, length - 1)) : []
+
+    for (let attempt = 0; suggestions.size < count && attempt < count * MAX_ATTEMPTS_PER_SUGGESTION; attempt++) {
+      const candidate = randomDigits(length)
+        .split("")
+        .map((digit, i) => (kept.includes(i) ? closeTo![i] : digit))
+        .join("")
+
+      if (candidate === closeTo || suggestions.has(candidate)) continue
+      if (this.validateMPIN(candidate, demographics).strength === "STRONG") {
+        suggestions.add(candidate)
       }
-      return false
-    })
+    }
+
+    return [...suggestions]
   }
 
   // Method to generate test cases
-  generateTestCases(): Array<{ mpin: string; demographics: Demographics; expected: Partial<ValidationResult> }> {
+  generateTestCases(): TestCase[] {
     return [
       // basic common pins used
       { mpin: "1234", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
@@ -333,9 +357,93 @@ export class MPINValidator {
 
       // basic Edge cases like repeatition, sequence - ascending or descending
       { mpin: "1122", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
-      { mpin: "2468", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
+      {
+        mpin: "2468",
+        demographics: {},
+        expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED", "ARITHMETIC_PROGRESSION"] },
+      },
       { mpin: "9876", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
       { mpin: "112233", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
+
+      // 5 and 8 digits
+      { mpin: "12345", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
+      { mpin: "28461", demographics: {}, expected: { strength: "STRONG", weaknessReasons: [] } },
+      { mpin: "12341234", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["COMMONLY_USED"] } },
+      {
+        mpin: "15021990",
+        demographics: { dob: "1990-02-15", spouseDob: "", anniversary: "" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_DOB_SELF"] },
+      },
+      { mpin: "73928461", demographics: {}, expected: { strength: "STRONG", weaknessReasons: [] } },
+
+      // date formats and positions
+      {
+        mpin: "1990",
+        demographics: { dob: "1990-02-15", spouseDob: "", anniversary: "" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_DOB_SELF"] },
+      },
+      {
+        mpin: "419902",
+        demographics: { dob: "15/02/1990", spouseDob: "", anniversary: "" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_DOB_SELF"] },
+      },
+      {
+        mpin: "490312",
+        demographics: { dob: "", spouseDob: "03-12-1985", anniversary: "" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_DOB_SPOUSE"] },
+      },
+      {
+        mpin: "7392",
+        demographics: { dob: "not-a-date", spouseDob: "", anniversary: "" },
+        expected: { strength: "STRONG", weaknessReasons: [] },
+      },
+
+      // personal identifiers
+      {
+        mpin: "4821",
+        demographics: { phoneNumber: "+91 98765 04821" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_PHONE"] },
+      },
+      {
+        mpin: "739284",
+        demographics: { vehicleNumber: "MH 12 AB 7392" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_VEHICLE"] },
+      },
+      {
+        mpin: "5600",
+        demographics: { postalCode: "560001" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_POSTAL_CODE"] },
+      },
+      {
+        mpin: "2217",
+        demographics: { houseNumber: "221B" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_HOUSE_NUMBER"] },
+      },
+      {
+        mpin: "9163",
+        demographics: { accountNumber: "XXXX XXXX XXXX 9163" },
+        expected: { strength: "WEAK", weaknessReasons: ["DEMOGRAPHIC_ACCOUNT_NUMBER"] },
+      },
+      {
+        mpin: "8471",
+        demographics: { phoneNumber: "9876543210", vehicleNumber: "KA01MJ2024", postalCode: "560001", houseNumber: "42" },
+        expected: { strength: "STRONG", weaknessReasons: [] },
+      },
+
+      // keypad lines and corners, not blocking but weighted out of STRONG
+      { mpin: "3698", demographics: {}, expected: { strength: "WEAK", weaknessReasons: [] } },
+      { mpin: "1470", demographics: {}, expected: { strength: "WEAK", weaknessReasons: [] } },
+
+      // structural patterns outside the common lists
+      { mpin: "3579", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["ARITHMETIC_PROGRESSION"] } },
+      { mpin: "8901", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["WRAP_AROUND_SEQUENCE"] } },
+      { mpin: "3883", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["PALINDROME"] } },
+      { mpin: "472274", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["PALINDROME"] } },
+      { mpin: "3838", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["ALTERNATING_PAIRS"] } },
+      { mpin: "4569", demographics: {}, expected: { strength: "WEAK", weaknessReasons: ["PARTIAL_RUN"] } },
+      // +1/-1 runs that no common list carries, not blocking but weighted out of STRONG
+      { mpin: "5678", demographics: {}, expected: { strength: "WEAK", weaknessReasons: [] } },
+      { mpin: "34567", demographics: {}, expected: { strength: "WEAK", weaknessReasons: [] } },
     ]
   }
 }
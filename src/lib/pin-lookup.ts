@@ -0,0 +1,79 @@
+// precomputed matches of the PIN-only rules (common list, structural and keypad patterns) for every
+// PIN of a length. one pass over the space, then each lookup is an array index
+import type { RuleMatch, ValidationRule } from "./rules"
+
+// 10^6 entries build in a few seconds, 10^7 would take a minute and 20+ MB
+export const MAX_LOOKUP_LENGTH = 6
+
+type Entry = ReadonlyMap<string, readonly RuleMatch[]> // rule id -> matches, only rules that matched
+
+const NO_MATCHES: readonly RuleMatch[] = Object.freeze([])
+
+export class PinLookup {
+  private tables = new Map<number, Uint16Array | Uint32Array>()
+  private entries: Entry[] = []
+  private covered: Set<ValidationRule>
+
+  // only pinOnly rules are taken, the rest have to run per call anyway
+  constructor(rules: ValidationRule[], lengths: number[]) {
+    const pinOnly = rules.filter((rule) => rule.pinOnly)
+    this.covered = new Set(pinOnly)
+    const indexes = new Map<string, number>()
+
+    for (const length of lengths) {
+      if (!Number.isInteger(length) || length < 1 || length > MAX_LOOKUP_LENGTH) {
+        throw new RangeError(`lookup lengths must be between 1 and ${MAX_LOOKUP_LENGTH}`)
+      }
+
+      const total = 10 ** length
+      const table = new Uint32Array(total)
+      for (let n = 0; n < total; n++) {
+        const mpin = String(n).padStart(length, "0")
+        const matched: Array<[string, RuleMatch[]]> = []
+        for (const rule of pinOnly) {
+          const matches = rule.detect({ mpin, demographics: {} })
+          if (matches.length > 0) matched.push([rule.id, matches])
+        }
+
+        // most PINs share an entry (usually the empty one), so entries are interned
+        const key = JSON.stringify(matched)
+        let index = indexes.get(key)
+        if (index === undefined) {
+          index = this.entries.push(freezeEntry(matched)) - 1
+          indexes.set(key, index)
+        }
+        table[n] = index
+      }
+
+      this.tables.set(length, this.entries.length <= 0x10000 ? Uint16Array.from(table) : table)
+    }
+  }
+
+  // matches for a rule this lookup covers, null when the PIN or rule is not in the tables
+  matches(mpin: string, rule: ValidationRule): readonly RuleMatch[] | null {
+    const table = this.tables.get(mpin.length)
+    if (!table || !this.covered.has(rule) || !/^\d+$/.test(mpin)) return null
+    return this.entries[table[Number(mpin)]].get(rule.id) ?? NO_MATCHES
+  }
+
+  get lengths(): number[] {
+    return [...this.tables.keys()]
+  }
+
+  // bytes held by the index tables, the interned entries are small next to them
+  get tableBytes(): number {
+    return [...this.tables.values()].reduce((total, table) => total + table.byteLength, 0)
+  }
+}
+
+// results share these objects, freezing keeps one caller from changing another's findings
+function freezeEntry(matched: Array<[string, RuleMatch[]]>): Entry {
+  return new Map(
+    matched.map(([id, matches]) => [
+      id,
+      Object.freeze(
+        matches.map((match) => Object.freeze(match.span ? { ...match, span: Object.freeze({ ...match.span }) } : match)),
+      ),
+    ]),
+  )
+}
@@ -0,0 +1,102 @@
+// PIN change checks - is the new PIN the old one, or trivially derived from it
+// (1846 -> 1847, 8461, 6481, 1486). old PINs may only be available as salted hashes
+
+export type PinRelationship = "same" | "increment" | "decrement" | "rotation" | "reversal" | "swap"
+
+export interface PinSimilarity {
+  relationship: PinRelationship
+  start: number // first digit of the new PIN that is part of the change
+  end: number // exclusive
+}
+
+// a previous PIN stored as a PBKDF2 hash, see hashPin
+export interface HashedPin {
+  salt: string // hex
+  hash: string // hex PBKDF2-SHA-256
+  iterations: number // kept with the hash so the work factor can be raised later
+}
+
+// PBKDF2-SHA-256 work factor, OWASP's 2023 recommendation
+export const PIN_HASH_ITERATIONS = 600_000
+
+export function findPinRelationship(newPin: string, oldPin: string): PinSimilarity | null {
+  const length = newPin.length
+  if (oldPin.length !== length) return null
+
+  const whole = { start: 0, end: length }
+  if (newPin === oldPin) return { relationship: "same", ...whole }
+
+  const changed = differingIndexes(newPin, oldPin)
+  const first = changed[0]
+  const last = changed[changed.length - 1]
+
+  // 1846 -> 1847, 1899 -> 1900 (carry), 1846 -> 1946 (one digit bumped)
+  const step = numericStep(newPin, oldPin) ?? singleDigitStep(newPin, oldPin, changed)
+  if (step !== null) {
+    return { relationship: step > 0 ? "increment" : "decrement", start: first, end: last + 1 }
+  }
+
+  if (newPin === oldPin.split("").reverse().join("")) return { relationship: "reversal", ...whole }
+
+  for (let shift = 1; shift < length; shift++) {
+    if (newPin === oldPin.slice(shift) + oldPin.slice(0, shift)) return { relationship: "rotation", ...whole }
+  }
+
+  // two digits swapped places, 1846 -> 1486
+  if (changed.length === 2 && newPin[first] === oldPin[last] && newPin[last] === oldPin[first]) {
+    return { relationship: "swap", start: first, end: last + 1 }
+  }
+
+  return null
+}
+
+function differingIndexes(a: string, b: string): number[] {
+  const indexes: number[] = []
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) indexes.push(i)
+  }
+  return indexes
+}
+
+// +1/-1 on the whole number, wrapping 9999 <-> 0000. 12 digits still fit a double exactly
+function numericStep(newPin: string, oldPin: string): number | null {
+  const space = 10 ** newPin.length
+  const diff = (Number(newPin) - Number(oldPin) + space) % space
+  if (diff === 1) return 1
+  if (diff === space - 1) return -1
+  return null
+}
+
+// a single digit moved by one, 9 and 0 wrap round
+function singleDigitStep(newPin: string, oldPin: string, changed: number[]): number | null {
+  if (changed.length !== 1) return null
+  const diff = (Number(newPin[changed[0]]) - Number(oldPin[changed[0]]) + 10) % 10
+  if (diff === 1) return 1
+  if (diff === 9) return -1
+  return null
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map((pair) => parseInt(pair, 16)))
+
+async function derive(pin: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await globalThis.crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, [
+    "deriveBits",
+  ])
+  const bits = await globalThis.crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256)
+  return toHex(new Uint8Array(bits))
+}
+
+// salted PBKDF2 for PIN history, works in the browser and in Node 18+. a PIN has only 10^4 to 10^12
+// values, so the slow hash buys time rather than secrecy: keep these records as private as the PINs
+export async function hashPin(
+  pin: string,
+  { salt, iterations = PIN_HASH_ITERATIONS }: { salt?: string; iterations?: number } = {},
+): Promise<HashedPin> {
+  const saltBytes = salt ? fromHex(salt) : globalThis.crypto.getRandomValues(new Uint8Array(16))
+  return { salt: toHex(saltBytes), hash: await derive(pin, saltBytes, iterations), iterations }
+}
+
+export async function matchesHashedPin(pin: string, { salt, hash, iterations }: HashedPin): Promise<boolean> {
+  return (await derive(pin, fromHex(salt), iterations)) === hash.toLowerCase()
+}
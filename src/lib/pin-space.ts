@@ -0,0 +1,106 @@
+// exhaustive classification of every PIN of one length (10^length of them), with invariants
+// that must hold for all of them. gives hard numbers on how permissive the current rules are
+import { CommonPinDictionary } from "./common-pins"
+import type { MPINValidator, ValidationResult } from "./mpin-validator"
+
+// 10^7 PINs already take minutes, anything longer never finishes
+export const MAX_EXHAUSTIVE_LENGTH = 7
+
+export interface PinSpaceInvariant {
+  id: string
+  description: string
+  holds: (pin: string, result: ValidationResult) => boolean
+}
+
+export interface InvariantReport {
+  id: string
+  description: string
+  violations: number
+  examples: string[] // first few PINs that broke it
+}
+
+export interface PinSpaceReport {
+  length: number
+  total: number
+  byStrength: Record<ValidationResult["strength"], number>
+  byReason: Record<string, number>
+  byPattern: Record<string, number>
+  invariants: InvariantReport[]
+}
+
+const MAX_EXAMPLES = 5
+
+export function defaultInvariants(validator: MPINValidator, commonPins = new CommonPinDictionary()): PinSpaceInvariant[] {
+  const { thresholds } = validator.getPolicy()
+  return [
+    {
+      id: "common-pins-weak",
+      description: "every PIN in the common lists is WEAK",
+      holds: (pin, result) => !commonPins.has(pin) || result.strength === "WEAK",
+    },
+    {
+      id: "same-digit-not-strong",
+      description: "no all-same-digit PIN is STRONG",
+      holds: (pin, result) => new Set(pin).size > 1 || result.strength === "WEAK",
+    },
+    {
+      id: "score-in-range",
+      description: `the score stays within 0-${thresholds.maxScore}`,
+      holds: (_pin, result) => result.securityScore >= 0 && result.securityScore <= thresholds.maxScore,
+    },
+    {
+      id: "blocking-means-weak",
+      description: "a PIN with a blocking finding is WEAK",
+      holds: (_pin, result) => result.weaknessReasons.length === 0 || result.strength === "WEAK",
+    },
+    {
+      id: "strong-meets-threshold",
+      description: `a STRONG PIN scores at least ${thresholds.strongMinScore}`,
+      holds: (_pin, result) => result.strength === "WEAK" || result.securityScore >= thresholds.strongMinScore,
+    },
+  ]
+}
+
+export function classifyPinSpace(
+  validator: MPINValidator,
+  length: number,
+  {
+    invariants = defaultInvariants(validator),
+    onProgress,
+  }: { invariants?: PinSpaceInvariant[]; onProgress?: (done: number, total: number) => void } = {},
+): PinSpaceReport {
+  if (!Number.isInteger(length) || length < 1 || length > MAX_EXHAUSTIVE_LENGTH) {
+    throw new RangeError(`length must be between 1 and ${MAX_EXHAUSTIVE_LENGTH}`)
+  }
+
+  const total = 10 ** length
+  const report: PinSpaceReport = {
+    length,
+    total,
+    byStrength: { STRONG: 0, WEAK: 0 },
+    byReason: {},
+    byPattern: {},
+    invariants: invariants.map(({ id, description }) => ({ id, description, violations: 0, examples: [] })),
+  }
+  const progressStep = Math.max(1, Math.floor(total / 100))
+
+  for (let n = 0; n < total; n++) {
+    const pin = String(n).padStart(length, "0")
+    const result = validator.validateMPIN(pin)
+
+    report.byStrength[result.strength]++
+    for (const reason of result.weaknessReasons) report.byReason[reason] = (report.byReason[reason] ?? 0) + 1
+    for (const pattern of result.detectedPatterns) report.byPattern[pattern] = (report.byPattern[pattern] ?? 0) + 1
+
+    invariants.forEach((invariant, i) => {
+      if (invariant.holds(pin, result)) return
+      const entry = report.invariants[i]
+      entry.violations++
+      if (entry.examples.length < MAX_EXAMPLES) entry.examples.push(pin)
+    })
+
+    if ((n + 1) % progressStep === 0) onProgress?.(n + 1, total)
+  }
+
+  return report
+}
@@ -0,0 +1,285 @@
+// rule registry - every check MPINValidator runs is a rule, built-in or registered by the app
+import type { CommonPinDictionary } from "./common-pins"
+import { findDateMatch } from "./date-matching"
+import { findIdentifierMatch } from "./identifier-matching"
+import { detectKeypadShape, KEYPAD_LINE_SHAPES } from "./keypad-patterns"
+import type { Demographics } from "./mpin-validator"
+import {
+  findArithmeticStep,
+  findPartialRun,
+  hasRepeatedDigits,
+  hasSequentialPattern,
+  isAlternatingPairs,
+  isPalindrome,
+  isWrapAroundSequence,
+} from "./structural-patterns"
+import type { FindingCode, ValidationPolicy } from "./validation-policy"
+
+export interface RuleContext {
+  mpin: string
+  demographics: Demographics
+}
+
+export interface RuleMatch {
+  span?: { start: number; end: number } | null // whole PIN when not set, null for no span
+  field?: keyof Demographics
+  detail?: string | null
+  points?: number // overrides the rule weight, e.g. common PINs scale by rank
+}
+
+export interface ValidationRule {
+  id: string // becomes the finding code
+  description: string
+  defaultWeight: number // points taken off per match
+  blocking: boolean // a match rules out STRONG
+  label?: string // set for rules listed in detectedPatterns
+  pinOnly?: boolean // ignores demographics, so its matches can be precomputed per PIN
+  detect: (context: RuleContext) => RuleMatch[]
+}
+
+export interface RuleInfo {
+  id: string
+  description: string
+  defaultWeight: number
+  blocking: boolean
+  enabled: boolean
+}
+
+export class RuleRegistry {
+  private rules: ValidationRule[] = []
+  private disabled = new Set<string>()
+  private activeRules: ValidationRule[] | null = null // cached, validateMPIN asks on every call
+
+  register(rule: ValidationRule, { before }: { before?: string } = {}) {
+    if (this.rules.some((existing) => existing.id === rule.id)) {
+      throw new Error(`A rule with id "${rule.id}" is already registered`)
+    }
+
+    const index = before === undefined ? -1 : this.rules.findIndex((existing) => existing.id === before)
+    if (index === -1) {
+      this.rules.push(rule)
+    } else {
+      this.rules.splice(index, 0, rule)
+    }
+    this.activeRules = null
+  }
+
+  unregister(id: string) {
+    this.rules = this.rules.filter((rule) => rule.id !== id)
+    this.disabled.delete(id)
+    this.activeRules = null
+  }
+
+  setEnabled(id: string, enabled: boolean) {
+    this.get(id) // unknown ids throw
+    if (enabled) {
+      this.disabled.delete(id)
+    } else {
+      this.disabled.add(id)
+    }
+    this.activeRules = null
+  }
+
+  // listed ids move to the front in that order, the rest keep their relative order
+  reorder(ids: string[]) {
+    const repeated = ids.find((id, i) => ids.indexOf(id) !== i)
+    if (repeated !== undefined) throw new Error(`Rule id "${repeated}" is listed more than once`)
+
+    const first = ids.map((id) => this.get(id))
+    this.rules = [...first, ...this.rules.filter((rule) => !ids.includes(rule.id))]
+    this.activeRules = null
+  }
+
+  get(id: string): ValidationRule {
+    const rule = this.rules.find((existing) => existing.id === id)
+    if (!rule) throw new Error(`No rule with id "${id}"`)
+    return rule
+  }
+
+  // enabled rules in run order
+  active(): ValidationRule[] {
+    this.activeRules ??= this.rules.filter((rule) => !this.disabled.has(rule.id))
+    return this.activeRules
+  }
+
+  list(): RuleInfo[] {
+    return this.rules.map(({ id, description, defaultWeight, blocking }) => ({
+      id,
+      description,
+      defaultWeight,
+      blocking,
+      enabled: !this.disabled.has(id),
+    }))
+  }
+}
+
+type EnabledCheck = keyof ValidationPolicy["enabledChecks"]
+
+// full weight for the top PIN, falling to commonlyUsedMin for the last ranked one.
+// log scale since PIN frequencies fall off roughly like a power law. a rank past the end of the
+// list, such as a rounded-up bucket, scores as the last one
+export function commonPinPenalty(rank: number, listSize: number, weights: ValidationPolicy["weights"]): number {
+  if (listSize <= 1) return weights.commonlyUsed
+
+  const commonness = 1 - Math.log(Math.min(rank, listSize)) / Math.log(listSize)
+  return Math.round(weights.commonlyUsedMin + (weights.commonlyUsed - weights.commonlyUsedMin) * commonness)
+}
+
+// what the policy says about a built-in rule
+interface BuiltInSpec {
+  code: FindingCode
+  description: string
+  check: EnabledCheck | null // null means always on
+  weight: number
+  label?: string
+  pinOnly?: boolean
+  detect: (context: RuleContext) => RuleMatch[]
+}
+
+const one = (match: RuleMatch | null | false): RuleMatch[] => (match ? [match] : [])
+
+// built-in checks as rules, weights and blocking taken from the policy
+export function createBuiltInRules(
+  policy: ValidationPolicy,
+  commonPins: CommonPinDictionary,
+): Array<{ rule: ValidationRule; enabled: boolean }> {
+  const { weights } = policy
+
+  const pattern = (
+    code: FindingCode,
+    check: EnabledCheck,
+    description: string,
+    label: string,
+    detect: (mpin: string) => RuleMatch | null | false,
+  ): BuiltInSpec => ({
+    code,
+    check,
+    description,
+    label,
+    weight: weights.pattern,
+    pinOnly: true,
+    detect: ({ mpin }) => one(detect(mpin)),
+  })
+
+  const dateRule = (code: FindingCode, check: EnabledCheck, field: keyof Demographics, description: string): BuiltInSpec => ({
+    code,
+    check,
+    description,
+    weight: weights.demographic,
+    detect: ({ mpin, demographics }) => {
+      // unparseable dates are skipped rather than failing the whole check
+      const date = demographics[field]
+      const match = date ? findDateMatch(mpin, date) : null
+      return one(match && { span: { start: match.start, end: match.end }, field, detail: match.format })
+    },
+  })
+
+  const identifierRule = (
+    code: FindingCode,
+    check: EnabledCheck,
+    field: keyof Demographics,
+    description: string,
+  ): BuiltInSpec => ({
+    code,
+    check,
+    description,
+    weight: weights.demographic,
+    detect: ({ mpin, demographics }) => {
+      const identifier = demographics[field]
+      const match = identifier ? findIdentifierMatch(mpin, identifier) : null
+      return one(match && { span: { start: match.start, end: match.end }, field, detail: match.format })
+    },
+  })
+
+  const specs: BuiltInSpec[] = [
+    {
+      code: "UNSUPPORTED_LENGTH",
+      check: null,
+      description: "PIN length is not one of the allowed lengths",
+      weight: weights.unsupportedLength,
+      pinOnly: true,
+      detect: ({ mpin }) => one(!policy.allowedLengths.includes(mpin.length) && { span: null }),
+    },
+    {
+      code: "COMMONLY_USED",
+      check: "commonlyUsed",
+      description: "PIN is in a ranked list of commonly used PINs",
+      weight: weights.commonlyUsed,
+      label: "Common PIN",
+      pinOnly: true,
+      detect: ({ mpin }) => {
+        const rank = commonPins.rank(mpin)
+        return one(
+          rank !== null && { detail: `rank ${rank}`, points: commonPinPenalty(rank, commonPins.size(mpin.length), weights) },
+        )
+      },
+    },
+    pattern("REPEATED_DIGITS", "repeatedDigits", "Same digit, doubled digits or a repeated block", "Repeated digits", (mpin) =>
+      hasRepeatedDigits(mpin) && {},
+    ),
+    {
+      ...pattern("SEQUENTIAL_PATTERN", "sequentialPattern", "Digits go up or down by one", "Sequential pattern", (mpin) =>
+        hasSequentialPattern(mpin) && {},
+      ),
+      weight: weights.sequentialRun,
+    },
+    pattern("KEYBOARD_PATTERN", "keyboardPattern", "PIN traces a shape on the keypad", "Keyboard pattern", (mpin) => {
+      // the matched shape is reported next to the label, e.g. "Keyboard pattern (corner)"
+      const shape = detectKeypadShape(mpin, policy.keypadLayout)
+      return shape && { detail: shape, points: KEYPAD_LINE_SHAPES.includes(shape) ? weights.keypadLine : undefined }
+    }),
+    pattern(
+      "ARITHMETIC_PROGRESSION",
+      "arithmeticProgression",
+      "Digits go up or down in equal steps",
+      "Arithmetic progression",
+      (mpin) => {
+        const step = findArithmeticStep(mpin)
+        return step !== null && { detail: `step ${step > 0 ? "+" : ""}${step}` }
+      },
+    ),
+    pattern(
+      "WRAP_AROUND_SEQUENCE",
+      "wrapAroundSequence",
+      "Sequence that wraps around 9 and 0",
+      "Wrap-around sequence",
+      (mpin) => isWrapAroundSequence(mpin) && {},
+    ),
+    pattern("PALINDROME", "palindrome", "PIN reads the same backwards", "Palindrome", (mpin) =>
+      isPalindrome(mpin) && { detail: mpin.length % 2 === 0 ? "mirrored halves" : null },
+    ),
+    pattern("ALTERNATING_PAIRS", "alternatingPairs", "PIN alternates between two digits", "Alternating pairs", (mpin) =>
+      isAlternatingPairs(mpin) && {},
+    ),
+    pattern("PARTIAL_RUN", "partialRun", "A run of +1/-1 digits covers most of the PIN", "Partial run", (mpin) => {
+      const run = findPartialRun(mpin)
+      return run && { span: run, detail: `${run.end - run.start} of ${mpin.length} digits` }
+    }),
+    dateRule("DEMOGRAPHIC_DOB_SELF", "dobSelf", "dob", "PIN contains the user's date of birth"),
+    dateRule("DEMOGRAPHIC_DOB_SPOUSE", "dobSpouse", "spouseDob", "PIN contains the spouse's date of birth"),
+    dateRule("DEMOGRAPHIC_ANNIVERSARY", "anniversary", "anniversary", "PIN contains the wedding anniversary"),
+    identifierRule("DEMOGRAPHIC_PHONE", "phoneNumber", "phoneNumber", "PIN reuses digits of the phone number"),
+    identifierRule("DEMOGRAPHIC_VEHICLE", "vehicleNumber", "vehicleNumber", "PIN reuses digits of the vehicle number"),
+    identifierRule("DEMOGRAPHIC_POSTAL_CODE", "postalCode", "postalCode", "PIN reuses digits of the postal code"),
+    identifierRule("DEMOGRAPHIC_HOUSE_NUMBER", "houseNumber", "houseNumber", "PIN reuses the house number"),
+    identifierRule(
+      "DEMOGRAPHIC_ACCOUNT_NUMBER",
+      "accountNumber",
+      "accountNumber",
+      "PIN reuses digits of the account or card number",
+    ),
+  ]
+
+  return specs.map(({ code, description, check, weight, label, pinOnly, detect }) => ({
+    rule: {
+      id: code,
+      description,
+      defaultWeight: weight,
+      blocking: policy.severity[code] === "blocking",
+      label,
+      pinOnly,
+      detect,
+    },
+    enabled: check === null || policy.enabledChecks[check],
+  }))
+}
@@ -0,0 +1,27 @@
+// cryptographically secure randomness, works in the browser and in Node 18+
+
+// uniform integer in [0, max) - rejection sampling so small ranges are not biased
+export function randomInt(max: number): number {
+  const limit = Math.floor(256 / max) * max
+  const byte = new Uint8Array(1)
+  do {
+    globalThis.crypto.getRandomValues(byte)
+  } while (byte[0] >= limit)
+  return byte[0] % max
+}
+
+export function randomDigits(length: number): string {
+  let digits = ""
+  for (let i = 0; i < length; i++) digits += randomInt(10)
+  return digits
+}
+
+// picks `count` distinct indexes below `size`
+export function randomIndexes(size: number, count: number): number[] {
+  const indexes = Array.from({ length: size }, (_, i) => i)
+  for (let i = size - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[indexes[i], indexes[j]] = [indexes[j], indexes[i]]
+  }
+  return indexes.slice(0, count)
+}
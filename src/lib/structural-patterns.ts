@@ -0,0 +1,122 @@
+// structural digit patterns - repeats, +1/-1 runs, progressions, palindromes ...
+
+const toDigits = (mpin: string) => mpin.split("").map(Number)
+
+// one or two digits are no pattern, and "" or "7" would otherwise match everything vacuously
+const MIN_PATTERN_LENGTH = 3
+
+export function hasRepeatedDigits(mpin: string): boolean { // logic 
+  if (mpin.length < MIN_PATTERN_LENGTH) return false
+  if (new Set(mpin).size === 1) return true
+
+  // 1122, 112233, 11223344 ...
+  if (mpin.length % 2 === 0) {
+    let doubled = true
+    for (let i = 0; i < mpin.length; i += 2) {
+      if (mpin[i] !== mpin[i + 1]) doubled = false // digits in each pair are same
+    }
+    if (doubled) return true
+  }
+
+  // 123123, 12341234, 123123123 - a block of 3+ digits repeated
+  for (let block = 3; block <= mpin.length / 2; block++) {
+    if (mpin.length % block === 0 && mpin.slice(0, block).repeat(mpin.length / block) === mpin) {
+      return true
+    }
+  }
+
+  return false
+}
+
+export function hasSequentialPattern(mpin: string): boolean { // logic 
+  if (mpin.length < MIN_PATTERN_LENGTH) return false
+  const digits = mpin.split("").map(Number)
+
+  
+  let isAscending = true
+  let isDescending = true
+
+  for (let i = 1; i < digits.length; i++) {
+    if (digits[i] !== digits[i - 1] + 1) isAscending = false 
+    if (digits[i] !== digits[i - 1] - 1) isDescending = false
+  }
+
+  return isAscending || isDescending
+}
+
+// 1357, 2468, 9630 - constant step other than 0 and +/-1 (those are repeats and plain sequences)
+export function findArithmeticStep(mpin: string): number | null {
+  if (mpin.length < MIN_PATTERN_LENGTH) return null
+  const digits = toDigits(mpin)
+  const step = digits[1] - digits[0]
+  if (Math.abs(step) < 2) return null
+
+  for (let i = 2; i < digits.length; i++) {
+    if (digits[i] - digits[i - 1] !== step) return null
+  }
+  return step
+}
+
+// 7890, 8901, 2109 - a +1/-1 run that wraps round between 9 and 0
+export function isWrapAroundSequence(mpin: string): boolean {
+  if (mpin.length < MIN_PATTERN_LENGTH) return false
+  const digits = toDigits(mpin)
+  let ascending = true
+  let descending = true
+  let wraps = false
+
+  for (let i = 1; i < digits.length; i++) {
+    if (digits[i] !== (digits[i - 1] + 1) % 10) ascending = false
+    if (digits[i] !== (digits[i - 1] + 9) % 10) descending = false
+    if (Math.abs(digits[i] - digits[i - 1]) === 9) wraps = true
+  }
+  return wraps && (ascending || descending)
+}
+
+// 1221, 12321 - reads the same backwards. even lengths are mirrored halves (123321)
+export function isPalindrome(mpin: string): boolean {
+  if (mpin.length < MIN_PATTERN_LENGTH) return false
+  if (new Set(mpin).size === 1) return false // all same digit is a repeat
+  return mpin === mpin.split("").reverse().join("")
+}
+
+// 1212, 121212, 12121
+export function isAlternatingPairs(mpin: string): boolean {
+  if (mpin.length < MIN_PATTERN_LENGTH) return false
+  if (mpin[0] === mpin[1]) return false
+  for (let i = 2; i < mpin.length; i++) {
+    if (mpin[i] !== mpin[i - 2]) return false
+  }
+  return true
+}
+
+// share of the PIN a partial run has to cover, 3 of 4, 4 of 5, 5 of 6 ...
+const PARTIAL_RUN_COVERAGE = 0.75
+
+// 1239, 56781 - a +1/-1 run covering most but not all of the PIN
+export function findPartialRun(mpin: string): { start: number; end: number } | null {
+  const digits = toDigits(mpin)
+  const minLength = Math.max(MIN_PATTERN_LENGTH, Math.ceil(digits.length * PARTIAL_RUN_COVERAGE))
+
+  let best: { start: number; end: number } | null = null
+  let start = 0
+  let step = 0
+
+  for (let i = 1; i <= digits.length; i++) {
+    const diff = i < digits.length ? digits[i] - digits[i - 1] : 0
+    if (i < digits.length && Math.abs(diff) === 1 && (step === 0 || diff === step)) {
+      step = diff
+      continue
+    }
+
+    // run [start, i) ended
+    if (i - start >= minLength && i - start < digits.length && (!best || i - start > best.end - best.start)) {
+      best = { start, end: i }
+    }
+    // a new run starts at the last digit of the previous one when it turns round
+    start = Math.abs(diff) === 1 ? i - 1 : i
+    step = Math.abs(diff) === 1 ? diff : 0
+  }
+
+  return best
+}
@@ -0,0 +1,165 @@
+// regression test cases for the validator - expectations, comparison and the JSON file format
+// QA uses to keep its corpus. the built-in cases come from MPINValidator.generateTestCases
+import { DEMOGRAPHIC_FIELDS, type Demographics, type MPINValidator, type ValidationResult } from "./mpin-validator"
+
+export interface ScoreRange {
+  min?: number
+  max?: number
+}
+
+// every field is optional, only the ones set are checked
+export interface TestExpectation {
+  strength?: ValidationResult["strength"]
+  weaknessReasons?: string[] // exactly these, in any order
+  securityScore?: number | ScoreRange // exact score or inclusive range
+  detectedPatterns?: string[] // each of these has to be detected, others may be too
+}
+
+export interface TestCase {
+  name?: string
+  mpin: string
+  demographics: Demographics
+  expected: TestExpectation
+}
+
+export interface FieldDiff {
+  field: keyof TestExpectation
+  expected: string
+  actual: string
+}
+
+const sorted = (values: string[]) => [...values].sort()
+const list = (values: string[]) => values.join(", ") || "None"
+
+export function describeScore(expected: number | ScoreRange): string {
+  if (typeof expected === "number") return String(expected)
+  if (expected.min !== undefined && expected.max !== undefined) return `${expected.min}-${expected.max}`
+  if (expected.min !== undefined) return `>= ${expected.min}`
+  if (expected.max !== undefined) return `<= ${expected.max}`
+  return "any"
+}
+
+// fields that did not match, empty when the case passes
+export function compareResult(expected: TestExpectation, actual: ValidationResult): FieldDiff[] {
+  const diffs: FieldDiff[] = []
+
+  if (expected.strength !== undefined && expected.strength !== actual.strength) {
+    diffs.push({ field: "strength", expected: expected.strength, actual: actual.strength })
+  }
+
+  // a STRONG case without reasons expects none, like the original runner
+  const reasons = expected.weaknessReasons ?? (expected.strength === "STRONG" ? [] : undefined)
+  if (reasons && JSON.stringify(sorted(reasons)) !== JSON.stringify(sorted(actual.weaknessReasons))) {
+    diffs.push({ field: "weaknessReasons", expected: list(sorted(reasons)), actual: list(sorted(actual.weaknessReasons)) })
+  }
+
+  const score = expected.securityScore
+  if (score !== undefined) {
+    const { min = -Infinity, max = Infinity } = typeof score === "number" ? { min: score, max: score } : score
+    if (actual.securityScore < min || actual.securityScore > max) {
+      diffs.push({ field: "securityScore", expected: describeScore(score), actual: String(actual.securityScore) })
+    }
+  }
+
+  const missing = (expected.detectedPatterns ?? []).filter((pattern) => !actual.detectedPatterns.includes(pattern))
+  if (missing.length > 0) {
+    diffs.push({
+      field: "detectedPatterns",
+      expected: `includes ${list(expected.detectedPatterns!)}`,
+      actual: list(actual.detectedPatterns),
+    })
+  }
+
+  return diffs
+}
+
+export interface TestRun {
+  testCase: TestCase
+  name: string
+  actual: ValidationResult
+  diffs: FieldDiff[]
+  durationMs: number
+}
+
+export function testName(testCase: TestCase, index: number): string {
+  return testCase.name ?? `case ${index + 1}: ${testCase.mpin}`
+}
+
+// runs every case, used by the headless runner. the browser runner does the same one case at a time
+export function runTestCases(validator: MPINValidator, cases: TestCase[]): TestRun[] {
+  return cases.map((testCase, index) => {
+    const started = performance.now()
+    const actual = validator.validateMPIN(testCase.mpin, testCase.demographics)
+    const diffs = compareResult(testCase.expected, actual)
+    return { testCase, name: testName(testCase, index), actual, diffs, durationMs: performance.now() - started }
+  })
+}
+
+// file format for import/export
+export interface TestSuiteFile {
+  version: 1
+  cases: TestCase[]
+}
+
+export function serializeTestSuite(cases: TestCase[]): string {
+  const file: TestSuiteFile = { version: 1, cases }
+  return JSON.stringify(file, null, 2) + "\n"
+}
+
+// accepts a TestSuiteFile or a bare array of cases, throws with the index of the first bad case
+export function parseTestSuite(text: string): TestCase[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("File is not valid JSON")
+  }
+
+  const cases = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.cases) ? data.cases : null
+  if (!cases) throw new Error('Expected an array of test cases or an object with a "cases" array')
+
+  return cases.map((value, index) => {
+    const problem = checkCase(value)
+    if (problem) throw new Error(`Test case ${index + 1}: ${problem}`)
+    const testCase = value as TestCase
+    return { ...testCase, demographics: testCase.demographics ?? {} }
+  })
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === "string")
+
+function checkCase(value: unknown): string | null {
+  if (!isObject(value)) return "must be an object"
+  if (typeof value.mpin !== "string") return "mpin must be a string"
+  if (value.name !== undefined && typeof value.name !== "string") return "name must be a string"
+
+  const demographics = value.demographics ?? {}
+  if (!isObject(demographics)) return "demographics must be an object"
+  for (const [key, field] of Object.entries(demographics)) {
+    if (!DEMOGRAPHIC_FIELDS.includes(key as keyof Demographics)) return `unknown demographic field "${key}"`
+    if (typeof field !== "string") return `demographics.${key} must be a string`
+  }
+
+  const expected = value.expected
+  if (!isObject(expected)) return "expected must be an object"
+  if (expected.strength !== undefined && expected.strength !== "WEAK" && expected.strength !== "STRONG") {
+    return 'expected.strength must be "WEAK" or "STRONG"'
+  }
+  if (expected.weaknessReasons !== undefined && !isStringList(expected.weaknessReasons)) {
+    return "expected.weaknessReasons must be a list of strings"
+  }
+  if (expected.detectedPatterns !== undefined && !isStringList(expected.detectedPatterns)) {
+    return "expected.detectedPatterns must be a list of strings"
+  }
+
+  const score = expected.securityScore
+  const isNumber = (n: unknown) => n === undefined || (typeof n === "number" && Number.isFinite(n))
+  if (score !== undefined && typeof score !== "number" && !(isObject(score) && isNumber(score.min) && isNumber(score.max))) {
+    return "expected.securityScore must be a number or { min, max }"
+  }
+
+  return null
+}
@@ -0,0 +1,60 @@
+// CI report formats for test runs - TAP 13 and JUnit XML
+import type { TestRun } from "./test-cases"
+
+// a test case run, or any other check the runner reports alongside them
+export type ReportedRun = Pick<TestRun, "name" | "durationMs"> & {
+  diffs: Array<{ field: string; expected: string; actual: string }>
+}
+
+export function toTap(runs: ReportedRun[]): string {
+  const lines = ["TAP version 13", `1..${runs.length}`]
+
+  runs.forEach((run, index) => {
+    const ok = run.diffs.length === 0
+    lines.push(`${ok ? "ok" : "not ok"} ${index + 1} - ${run.name.replace(/#/g, "\\#")}`)
+    if (ok) return
+
+    // YAML diagnostics block
+    lines.push("  ---")
+    for (const diff of run.diffs) {
+      lines.push(`  ${diff.field}:`, `    expected: ${JSON.stringify(diff.expected)}`, `    actual: ${JSON.stringify(diff.actual)}`)
+    }
+    lines.push("  ...")
+  })
+
+  const failed = runs.filter((run) => run.diffs.length > 0).length
+  lines.push(`# tests ${runs.length}`, `# pass ${runs.length - failed}`, `# fail ${failed}`)
+  return lines.join("\n") + "\n"
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+
+const seconds = (ms: number) => (ms / 1000).toFixed(4)
+
+export function toJUnit(runs: ReportedRun[], suiteName = "mpin-validator"): string {
+  const failures = runs.filter((run) => run.diffs.length > 0).length
+  const time = seconds(runs.reduce((total, run) => total + run.durationMs, 0))
+
+  const cases = runs.map((run) => {
+    const open = `    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(run.name)}" time="${seconds(run.durationMs)}"`
+    if (run.diffs.length === 0) return `${open}/>`
+
+    const message = run.diffs.map((diff) => diff.field).join(", ") + " did not match"
+    const details = run.diffs.map((diff) => `${diff.field}: expected ${diff.expected}, actual ${diff.actual}`).join("\n")
+    return [
+      `${open}>`,
+      `      <failure message="${escapeXml(message)}" type="AssertionError">${escapeXml(details)}</failure>`,
+      "    </testcase>",
+    ].join("\n")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${runs.length}" failures="${failures}" time="${time}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${runs.length}" failures="${failures}" errors="0" time="${time}">`,
+    ...cases,
+    "  </testsuite>",
+    "</testsuites>",
+  ].join("\n") + "\n"
+}
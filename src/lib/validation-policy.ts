@@ -0,0 +1,158 @@
+// tunable rules for MPINValidator - weights, thresholds, enabled checks etc.
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH } from "./common-pins"
+import type { KeypadLayout } from "./keypad-patterns"
+import { DEFAULT_ATTACK_MODELS, type AttackModel } from "./guess-estimator"
+
+export type FindingCode =
+  | "UNSUPPORTED_LENGTH"
+  | "COMMONLY_USED"
+  | "REPEATED_DIGITS"
+  | "SEQUENTIAL_PATTERN"
+  | "KEYBOARD_PATTERN"
+  | "ARITHMETIC_PROGRESSION"
+  | "WRAP_AROUND_SEQUENCE"
+  | "PALINDROME"
+  | "ALTERNATING_PAIRS"
+  | "PARTIAL_RUN"
+  | "DEMOGRAPHIC_DOB_SELF"
+  | "DEMOGRAPHIC_DOB_SPOUSE"
+  | "DEMOGRAPHIC_ANNIVERSARY"
+  | "DEMOGRAPHIC_PHONE"
+  | "DEMOGRAPHIC_VEHICLE"
+  | "DEMOGRAPHIC_POSTAL_CODE"
+  | "DEMOGRAPHIC_HOUSE_NUMBER"
+  | "DEMOGRAPHIC_ACCOUNT_NUMBER"
+  | "REUSED_PREVIOUS_PIN"
+  | "SIMILAR_TO_PREVIOUS_PIN"
+
+// blocking findings force WEAK and are listed in weaknessReasons,
+// advisory findings only lower the score
+export type FindingSeverity = "blocking" | "advisory"
+
+export interface ValidationPolicy {
+  allowedLengths: number[]
+  weights: {
+    unsupportedLength: number
+    commonlyUsed: number // for the most common PIN
+    commonlyUsedMin: number // for the last ranked PIN
+    pattern: number // per detected pattern
+    keypadLine: number // straight lines and corners on the keypad
+    sequentialRun: number // digits go up or down by one across the whole PIN
+    demographic: number // per demographic hit
+    previousPin: number // new PIN is, or is derived from, a previous one
+  }
+  thresholds: {
+    maxScore: number
+    strongMinScore: number
+  }
+  enabledChecks: {
+    commonlyUsed: boolean
+    repeatedDigits: boolean
+    sequentialPattern: boolean
+    keyboardPattern: boolean
+    arithmeticProgression: boolean
+    wrapAroundSequence: boolean
+    palindrome: boolean
+    alternatingPairs: boolean
+    partialRun: boolean
+    dobSelf: boolean
+    dobSpouse: boolean
+    anniversary: boolean
+    phoneNumber: boolean
+    vehicleNumber: boolean
+    postalCode: boolean
+    houseNumber: boolean
+    accountNumber: boolean
+    previousPins: boolean // only used by validatePINChange
+  }
+  severity: Record<FindingCode, FindingSeverity>
+  keypadLayout: KeypadLayout // used by the keyboard pattern check
+  attackModels: AttackModel[] // time-to-compromise is reported for each
+}
+
+// every section is optional and merged over the defaults
+export type ValidationPolicyOverrides = {
+  [K in keyof ValidationPolicy]?: ValidationPolicy[K] extends unknown[] | string
+    ? ValidationPolicy[K]
+    : Partial<ValidationPolicy[K]>
+}
+
+// reproduces the original hard-coded rules, except the common PIN penalty now scales
+// with rank, the newer structural patterns block and keypad lines, corners and full runs weigh more
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  allowedLengths: Array.from({ length: MAX_PIN_LENGTH - MIN_PIN_LENGTH + 1 }, (_, i) => MIN_PIN_LENGTH + i),
+  weights: {
+    unsupportedLength: 100,
+    commonlyUsed: 40,
+    commonlyUsedMin: 20,
+    pattern: 15,
+    keypadLine: 45, // enough on its own to fall out of STRONG
+    sequentialRun: 45, // same, 5678 is as easy to guess as 1234
+    demographic: 25,
+    previousPin: 40,
+  },
+  thresholds: {
+    maxScore: 100,
+    strongMinScore: 60,
+  },
+  enabledChecks: {
+    commonlyUsed: true,
+    repeatedDigits: true,
+    sequentialPattern: true,
+    keyboardPattern: true,
+    arithmeticProgression: true,
+    wrapAroundSequence: true,
+    palindrome: true,
+    alternatingPairs: true,
+    partialRun: true,
+    dobSelf: true,
+    dobSpouse: true,
+    anniversary: true,
+    phoneNumber: true,
+    vehicleNumber: true,
+    postalCode: true,
+    houseNumber: true,
+    accountNumber: true,
+    previousPins: true,
+  },
+  severity: {
+    UNSUPPORTED_LENGTH: "blocking",
+    COMMONLY_USED: "blocking",
+    REPEATED_DIGITS: "advisory",
+    SEQUENTIAL_PATTERN: "advisory",
+    KEYBOARD_PATTERN: "advisory",
+    // structural patterns catch weak PINs missing from the common lists, so they block
+    ARITHMETIC_PROGRESSION: "blocking",
+    WRAP_AROUND_SEQUENCE: "blocking",
+    PALINDROME: "blocking",
+    ALTERNATING_PAIRS: "blocking",
+    PARTIAL_RUN: "blocking",
+    DEMOGRAPHIC_DOB_SELF: "blocking",
+    DEMOGRAPHIC_DOB_SPOUSE: "blocking",
+    DEMOGRAPHIC_ANNIVERSARY: "blocking",
+    DEMOGRAPHIC_PHONE: "blocking",
+    DEMOGRAPHIC_VEHICLE: "blocking",
+    DEMOGRAPHIC_POSTAL_CODE: "blocking",
+    DEMOGRAPHIC_HOUSE_NUMBER: "blocking",
+    DEMOGRAPHIC_ACCOUNT_NUMBER: "blocking",
+    REUSED_PREVIOUS_PIN: "blocking",
+    SIMILAR_TO_PREVIOUS_PIN: "blocking",
+  },
+  keypadLayout: "phone",
+  attackModels: DEFAULT_ATTACK_MODELS,
+}
+
+export function resolvePolicy(
+  overrides: ValidationPolicyOverrides = {},
+  base: ValidationPolicy = DEFAULT_VALIDATION_POLICY,
+): ValidationPolicy {
+  return {
+    allowedLengths: overrides.allowedLengths ?? base.allowedLengths,
+    weights: { ...base.weights, ...overrides.weights },
+    thresholds: { ...base.thresholds, ...overrides.thresholds },
+    enabledChecks: { ...base.enabledChecks, ...overrides.enabledChecks },
+    severity: { ...base.severity, ...overrides.severity },
+    keypadLayout: overrides.keypadLayout ?? base.keypadLayout,
+    attackModels: overrides.attackModels ?? base.attackModels,
+  }
+}
@@ -0,0 +1,126 @@
+// schema check for validation requests coming over HTTP. only shapes and types are checked
+// here, digits, lengths and dates are left to validateMPINStrict. error messages never include
+// the submitted values, so a PIN cannot leak through an error response
+import { DEMOGRAPHIC_FIELDS, type Demographics, type MPINValidator, type ValidationResult } from "./mpin-validator"
+import type { InputErrorCode } from "./input-validation"
+import { commonPinBucket } from "./common-pins"
+
+export type RequestErrorCode =
+  | "INVALID_JSON"
+  | "LINE_TOO_LONG" // batch NDJSON only
+  | "ID_REQUIRED"
+  | "BODY_NOT_OBJECT"
+  | "UNKNOWN_FIELD"
+  | "MPIN_REQUIRED"
+  | "MPIN_NOT_STRING"
+  | "DEMOGRAPHICS_NOT_OBJECT"
+  | "DEMOGRAPHIC_NOT_STRING"
+  | InputErrorCode // from validateMPINStrict
+
+export interface RequestError {
+  code: RequestErrorCode
+  message: string
+  field?: string
+}
+
+// 400 responses from the API
+export interface ErrorResponse {
+  error: RequestError
+}
+
+// body of POST /api/validate as sent, demographics may be left out
+export interface ValidationRequestBody {
+  mpin: string
+  demographics?: Demographics
+}
+
+// ValidationResult as the API returns it, without anything that points at the digits: findings carry no
+// span or detail, pattern labels no shape or date format, and the common-list rank only its bucket
+export interface ValidationResponse extends Omit<ValidationResult, "commonPinRank"> {
+  commonPinBucket: number | null // rank rounded up to 10, 100, 1000 ...
+}
+
+export interface ValidationRequest {
+  mpin: string
+  demographics: Demographics
+}
+
+export type ParsedRequest = { ok: true; value: ValidationRequest } | { ok: false; error: RequestError }
+
+const REQUEST_FIELDS = ["mpin", "demographics"]
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const fail = (code: RequestErrorCode, message: string, field?: string): ParsedRequest => ({
+  ok: false,
+  error: field ? { code, message, field } : { code, message },
+})
+
+export function parseValidationRequest(body: unknown, extraFields: string[] = []): ParsedRequest {
+  if (!isObject(body)) return fail("BODY_NOT_OBJECT", "Request body must be a JSON object")
+
+  const unknown = Object.keys(body).find((key) => !REQUEST_FIELDS.includes(key) && !extraFields.includes(key))
+  if (unknown) return fail("UNKNOWN_FIELD", "Request body has an unknown field", unknown)
+
+  const { mpin, demographics = {} } = body
+  if (mpin === undefined || mpin === null) return fail("MPIN_REQUIRED", "mpin is required", "mpin")
+  if (typeof mpin !== "string") return fail("MPIN_NOT_STRING", "mpin must be a string", "mpin")
+
+  if (!isObject(demographics)) {
+    return fail("DEMOGRAPHICS_NOT_OBJECT", "demographics must be an object", "demographics")
+  }
+
+  const parsed: Demographics = {}
+  for (const [key, value] of Object.entries(demographics)) {
+    const field = DEMOGRAPHIC_FIELDS.find((name) => name === key)
+    if (!field) return fail("UNKNOWN_FIELD", "demographics has an unknown field", `demographics.${key}`)
+    if (value === null || value === undefined) continue
+    if (typeof value !== "string") {
+      return fail("DEMOGRAPHIC_NOT_STRING", "demographic values must be strings", `demographics.${key}`)
+    }
+    parsed[field] = value
+  }
+
+  return { ok: true, value: { mpin, demographics: parsed } }
+}
+
+// spans and details give the PIN back outright (an MMDD match over 0-4 next to the dob is the PIN), and the
+// exact rank does too with the public lists. a common-list hit is scored and guessed as the last PIN of its
+// bucket, and a lockout counts the whole top 10 as found. finding codes still narrow the PIN down, a
+// SEQUENTIAL_PATTERN leaves 20 candidates, so responses need the same care as the requests
+export function toValidationResponse(
+  { commonPinRank, ...result }: ValidationResult,
+  validator: MPINValidator,
+  length: number,
+): ValidationResponse {
+  const redacted = {
+    ...result,
+    findings: result.findings.map((finding) => ({ ...finding, span: null, detail: null })),
+    detectedPatterns: result.detectedPatterns.map((pattern) => pattern.replace(/ \(.*\)$/, "")),
+  }
+  if (commonPinRank === null) return { ...redacted, commonPinBucket: null }
+
+  const bucket = commonPinBucket(commonPinRank)
+  const points = validator.getCommonPinPenalty(bucket, length)
+  const findings = redacted.findings.map((finding) => (finding.code === "COMMONLY_USED" ? { ...finding, points } : finding))
+  const penalty = findings.reduce((total, finding) => total + finding.points, 0)
+
+  const { guessEstimate } = result
+  const scale = bucket / guessEstimate.guesses
+  return {
+    ...redacted,
+    findings,
+    securityScore: Math.max(0, validator.getPolicy().thresholds.maxScore - penalty),
+    commonPinBucket: bucket,
+    guessEstimate: {
+      ...guessEstimate,
+      guesses: bucket,
+      attacks: guessEstimate.attacks.map((attack) => ({
+        ...attack,
+        compromised: attack.compromised || bucket === 10,
+        seconds: attack.seconds === null ? null : attack.seconds * scale,
+      })),
+    },
+  }
+}